@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { STT_CONFIG } from "../../constants";
+import {
+  getClientId,
+  sttRateLimiter,
+} from "../../services/rateLimit/rateLimiter";
+import { getBackend } from "../../services/stt/registry";
+import { TTSError, TTSErrorCode } from "../../services/tts/errors";
+import {
+  errorResponse,
+  rateLimitError,
+  readBodyBytes,
+  validationError,
+} from "../../services/tts/responses";
+import { toTTSError } from "../../services/tts/synthesis";
+
+const SUMMARY = "Failed to transcribe audio";
+
+const fileTooLargeResponse = () =>
+  errorResponse(
+    new TTSError(
+      TTSErrorCode.PAYLOAD_TOO_LARGE,
+      `Audio files can be at most ${STT_CONFIG.MAX_FILE_BYTES / 1024 / 1024}MB`,
+      413
+    ),
+    SUMMARY
+  );
+
+/**
+ * Transcribes an uploaded recording. Expects multipart form data with the
+ * audio as `file` and an optional `language` code; answers with the
+ * Transcription as JSON.
+ */
+export async function POST(request: Request) {
+  try {
+    const backend = getBackend();
+    if (!backend) {
+      return errorResponse(
+        new TTSError(
+          TTSErrorCode.PROVIDER_UNAVAILABLE,
+          "No transcription backend is configured",
+          503
+        ),
+        SUMMARY
+      );
+    }
+
+    // Buffered under a cap first, since formData() would read any size
+    const body = await readBodyBytes(request, STT_CONFIG.MAX_BODY_BYTES);
+    if (!body) return fileTooLargeResponse();
+
+    let form: FormData;
+    try {
+      form = await new Response(body, {
+        headers: { "Content-Type": request.headers.get("Content-Type") || "" },
+      }).formData();
+    } catch {
+      return validationError(
+        { body: "Request body must be multipart form data" },
+        SUMMARY
+      );
+    }
+
+    const file = form.get("file");
+    const language = form.get("language");
+    if (!(file instanceof Blob) || file.size === 0) {
+      return validationError({ file: "An audio file is required" }, SUMMARY);
+    }
+    if (file.size > STT_CONFIG.MAX_FILE_BYTES) {
+      return fileTooLargeResponse();
+    }
+    if (language !== null && typeof language !== "string") {
+      return validationError({ language: "language must be text" }, SUMMARY);
+    }
+
+    const limit = await sttRateLimiter.consume(
+      getClientId(request),
+      Math.ceil(file.size / 1024)
+    );
+    if (!limit.allowed) {
+      return errorResponse(
+        rateLimitError(limit.reason, limit.retryAfter, "kilobyte"),
+        SUMMARY
+      );
+    }
+
+    const transcription = await backend.transcribe({
+      audio: file,
+      fileName: file instanceof File && file.name ? file.name : "audio.webm",
+      language: language || undefined,
+      signal: request.signal,
+    });
+
+    return NextResponse.json(transcription);
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new NextResponse(null, { status: 499 });
+    }
+
+    console.error("Error in STT API:", error);
+    return errorResponse(toTTSError(error), SUMMARY);
+  }
+}
@@ -0,0 +1,158 @@
+import { TTS_CONFIG } from "../../../constants";
+import { mapWithConcurrency } from "../../../libs/asyncHelpers";
+import {
+  getClientId,
+  ttsRateLimiter,
+} from "../../../services/rateLimit/rateLimiter";
+import synthesisCache from "../../../services/synthesisCache";
+import {
+  TTSError,
+  TTSErrorCode,
+  toErrorBody,
+} from "../../../services/tts/errors";
+import { getProvider } from "../../../services/tts/registry";
+import {
+  errorResponse,
+  providerUnavailableError,
+  rateLimitError,
+  readJsonBody,
+  validationError,
+} from "../../../services/tts/responses";
+import {
+  planSynthesis,
+  synthesizeToBuffer,
+  toTTSError,
+  validatePlan,
+} from "../../../services/tts/synthesis";
+import { BatchEvent } from "../../../services/tts/types";
+import {
+  FieldErrors,
+  validateBatchRequest,
+  validateProviderOptions,
+} from "../../../services/tts/validation";
+
+/**
+ * Synthesizes a list of texts with shared settings. Results are streamed as
+ * NDJSON (see BatchEvent) in completion order, so one failing item does not
+ * hold back or fail the others.
+ */
+export async function POST(request: Request) {
+  try {
+    const { body, response } = await readJsonBody(request);
+    if (response) return response;
+
+    const { value: requests, fieldErrors } = validateBatchRequest(body);
+    if (fieldErrors) return validationError(fieldErrors);
+
+    if (requests[0].markup) {
+      return validationError({ markup: "Markup is not supported in batches" });
+    }
+
+    const providerId = requests[0].provider;
+    const provider = getProvider(providerId);
+    if (!provider) return providerUnavailableError(providerId);
+
+    const providerErrors: FieldErrors = {};
+    requests.forEach((item, index) => {
+      Object.entries(validateProviderOptions(item, provider)).forEach(
+        ([field, message]) => {
+          providerErrors[`items.${index}.${field}`] = message;
+        }
+      );
+    });
+    if (Object.keys(providerErrors).length > 0) {
+      return validationError(providerErrors);
+    }
+
+    const plans = requests.map((item) => planSynthesis(item, provider));
+    const planErrors = plans.map(validatePlan);
+    const isValid = (index: number) =>
+      Object.keys(planErrors[index]).length === 0;
+
+    // The batch counts as one request; cached items and items that will be
+    // rejected cost no characters
+    const limit = await ttsRateLimiter.consume(
+      getClientId(request),
+      plans
+        .filter(
+          (plan, index) => isValid(index) && !synthesisCache.get(plan.cacheKey)
+        )
+        .reduce((total, plan) => total + plan.input.length, 0)
+    );
+    if (!limit.allowed) {
+      return errorResponse(rateLimitError(limit.reason, limit.retryAfter));
+    }
+
+    const abortController = new AbortController();
+    request.signal.addEventListener(
+      "abort",
+      () => abortController.abort(request.signal.reason),
+      { once: true }
+    );
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        const send = (event: BatchEvent) =>
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+        await mapWithConcurrency(
+          plans,
+          TTS_CONFIG.BATCH_CONCURRENCY,
+          async (plan, index) => {
+            if (abortController.signal.aborted) return;
+            send({ type: "start", index });
+
+            try {
+              if (!isValid(index)) {
+                throw new TTSError(
+                  TTSErrorCode.VALIDATION_FAILED,
+                  "Invalid request",
+                  400,
+                  { fieldErrors: planErrors[index] }
+                );
+              }
+
+              const result = await synthesizeToBuffer(
+                plan,
+                abortController.signal
+              );
+              send({
+                type: "result",
+                index,
+                audio: Buffer.from(result.audio).toString("base64"),
+                contentType: result.contentType,
+                chunks: result.chunks,
+                isCached: result.isCached,
+              });
+            } catch (error) {
+              if (abortController.signal.aborted) return;
+              console.error(`Error in TTS batch item ${index}:`, error);
+              send({
+                type: "error",
+                index,
+                error: toErrorBody(toTTSError(error)),
+              });
+            }
+          }
+        );
+
+        if (abortController.signal.aborted) return;
+        send({ type: "end" });
+        controller.close();
+      },
+      cancel: (reason) => abortController.abort(reason),
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error in TTS batch API:", error);
+    return errorResponse(toTTSError(error));
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { AUDIO_FORMATS } from "../../../constants";
+import {
+  getClientId,
+  ttsRateLimiter,
+} from "../../../services/rateLimit/rateLimiter";
+import synthesisCache from "../../../services/synthesisCache";
+import {
+  planDialogue,
+  synthesizeDialogue,
+} from "../../../services/tts/dialogue";
+import { getProvider } from "../../../services/tts/registry";
+import {
+  errorResponse,
+  providerUnavailableError,
+  rateLimitError,
+  readJsonBody,
+  validationError,
+} from "../../../services/tts/responses";
+import { toTTSError } from "../../../services/tts/synthesis";
+import {
+  validateDialogueRequest,
+  validateProviderOptions,
+} from "../../../services/tts/validation";
+
+const toBase64 = (audio: ArrayBuffer) => Buffer.from(audio).toString("base64");
+
+/**
+ * Renders a multi-speaker script into one track, and optionally one stem per
+ * speaker. Answers with JSON holding the audio as base64.
+ */
+export async function POST(request: Request) {
+  try {
+    const { body, response } = await readJsonBody(request);
+    if (response) return response;
+
+    const { value: dialogue, fieldErrors } = validateDialogueRequest(body);
+    if (fieldErrors) return validationError(fieldErrors);
+
+    const providerId = dialogue.request.provider;
+    const provider = getProvider(providerId);
+    if (!provider) return providerUnavailableError(providerId);
+
+    const providerErrors = validateProviderOptions(dialogue.request, provider);
+    if (Object.keys(providerErrors).length > 0) {
+      return validationError(providerErrors);
+    }
+
+    const { plans, fieldErrors: planErrors } = planDialogue(dialogue, provider);
+    if (planErrors) return validationError(planErrors);
+
+    // The script counts as one request; cached turns cost no characters
+    const limit = await ttsRateLimiter.consume(
+      getClientId(request),
+      plans
+        .filter((plan) => !synthesisCache.get(plan.cacheKey))
+        .reduce((total, plan) => total + plan.input.length, 0)
+    );
+    if (!limit.allowed) {
+      return errorResponse(rateLimitError(limit.reason, limit.retryAfter));
+    }
+
+    const { audio, stems } = await synthesizeDialogue(
+      dialogue,
+      plans,
+      request.signal
+    );
+
+    return NextResponse.json({
+      audio: toBase64(audio),
+      contentType: AUDIO_FORMATS[dialogue.request.format].mimeType,
+      stems:
+        stems &&
+        Object.fromEntries(
+          Object.entries(stems).map(([speaker, stem]) => [
+            speaker,
+            toBase64(stem),
+          ])
+        ),
+    });
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new NextResponse(null, { status: 499 });
+    }
+
+    console.error("Error in TTS dialogue API:", error);
+    return errorResponse(toTTSError(error));
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import {
+  getClientId,
+  ttsRateLimiter,
+} from "../../../services/rateLimit/rateLimiter";
+
+export async function GET(request: Request) {
+  const status = await ttsRateLimiter.getStatus(getClientId(request));
+  return NextResponse.json(status, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -1,45 +1,205 @@
 import { NextResponse } from "next/server";
-import { OPENAI_VOICES } from "../../constants";
+import { AUDIO_FORMATS, TTS_CONFIG } from "../../constants";
+import { scheduleWithConcurrency } from "../../libs/asyncHelpers";
+import { collectStream } from "../../libs/streamHelpers";
+import {
+  getClientId,
+  ttsRateLimiter,
+} from "../../services/rateLimit/rateLimiter";
+import {
+  getDefaultProviderId,
+  getProvider,
+  listProviders,
+} from "../../services/tts/registry";
+import synthesisCache from "../../services/synthesisCache";
+import {
+  errorResponse,
+  providerUnavailableError,
+  rateLimitError,
+  readJsonBody,
+  validationError,
+} from "../../services/tts/responses";
+import {
+  cacheSynthesis,
+  createPartsStream,
+  planMarkupSynthesis,
+  planSynthesis,
+  readChunk,
+  synthesizeChunk,
+  synthesizeMarkupParts,
+  toTTSError,
+  validatePlan,
+} from "../../services/tts/synthesis";
+import {
+  validateProviderOptions,
+  validateTTSRequest,
+} from "../../services/tts/validation";
+
+export async function GET() {
+  return NextResponse.json({
+    providers: listProviders(),
+    defaultProvider: getDefaultProviderId(),
+  });
+}
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { text, voice = OPENAI_VOICES.alloy } = body;
-    const apiKey = process.env.OPENAI_API_KEY;
-    const url = "https://api.openai.com/v1/audio/speech";
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "tts-1",
-        input: text,
-        voice,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const audioBlob = await response.blob();
-    return new NextResponse(audioBlob, {
-      status: 200,
-      headers: {
-        "Content-Type": "audio/mpeg",
-      },
-    });
+    const { body, response } = await readJsonBody(request);
+    if (response) return response;
+
+    const { value, fieldErrors } = validateTTSRequest(body);
+    if (fieldErrors) return validationError(fieldErrors);
+
+    const { provider: providerId } = value;
+    const provider = getProvider(providerId);
+    if (!provider) return providerUnavailableError(providerId);
+
+    const providerErrors = validateProviderOptions(value, provider);
+    if (Object.keys(providerErrors).length > 0) {
+      return validationError(providerErrors);
+    }
+
+    // Upstream calls stop when the client disconnects or cancels the stream
+    const abortController = new AbortController();
+    request.signal.addEventListener(
+      "abort",
+      () => abortController.abort(request.signal.reason),
+      { once: true }
+    );
+
+    if (value.markup) {
+      const { parts, fieldErrors: markupErrors } = planMarkupSynthesis(
+        value,
+        provider
+      );
+      if (markupErrors) return validationError(markupErrors);
+
+      const limit = await ttsRateLimiter.consume(
+        getClientId(request),
+        parts.reduce(
+          (total, part) =>
+            part.type === "speech" ? total + part.plan.input.length : total,
+          0
+        )
+      );
+      if (!limit.allowed) {
+        return errorResponse(rateLimitError(limit.reason, limit.retryAfter));
+      }
+
+      const partAudio = synthesizeMarkupParts(
+        parts,
+        value.format,
+        abortController.signal
+      );
+      // Segments are cached individually, not the joined result
+      try {
+        await partAudio[0];
+      } catch (error) {
+        // Nobody will read the parts already queued behind it
+        abortController.abort();
+        throw error;
+      }
+
+      return new NextResponse(
+        createPartsStream(partAudio, value.format, abortController),
+        {
+          status: 200,
+          headers: {
+            "Content-Type": AUDIO_FORMATS[value.format].mimeType,
+            "X-TTS-Chunks": String(parts.length),
+            "X-Cache": "MISS",
+          },
+        }
+      );
+    }
+
+    const plan = planSynthesis(value, provider);
+    const planErrors = validatePlan(plan);
+    if (Object.keys(planErrors).length > 0) {
+      return validationError(planErrors);
+    }
+
+    const etag = `"${plan.cacheKey}"`;
+
+    const cached = synthesisCache.get(plan.cacheKey);
+    if (cached) {
+      if (request.headers.get("If-None-Match") === etag) {
+        return new NextResponse(null, {
+          status: 304,
+          headers: { ETag: etag, "X-Cache": "HIT" },
+        });
+      }
+
+      return new NextResponse(cached.audio, {
+        status: 200,
+        headers: {
+          "Content-Type": cached.contentType,
+          "X-TTS-Chunks": String(cached.chunks),
+          ETag: etag,
+          "X-Cache": "HIT",
+        },
+      });
+    }
+
+    // Cache hits cost nothing upstream, so only misses count against limits
+    const limit = await ttsRateLimiter.consume(
+      getClientId(request),
+      plan.input.length
+    );
+    if (!limit.allowed) {
+      return errorResponse(rateLimitError(limit.reason, limit.retryAfter));
+    }
+
+    const { chunks } = plan;
+    const headers = {
+      "Content-Type": plan.contentType,
+      "X-TTS-Chunks": String(chunks.length),
+      ETag: etag,
+      "X-Cache": "MISS",
+    };
+
+    // Short texts stream the provider body straight through
+    if (chunks.length === 1) {
+      const body = await synthesizeChunk(plan, 0, abortController.signal);
+      return new NextResponse(
+        body.pipeThrough(collectStream((audio) => cacheSynthesis(plan, audio))),
+        { status: 200, headers }
+      );
+    }
+
+    // Long texts stream chunk by chunk, in order, while later chunks are
+    // still being synthesized
+    const chunkAudio = scheduleWithConcurrency(
+      chunks,
+      TTS_CONFIG.CHUNK_CONCURRENCY,
+      (_, index) => readChunk(plan, index, abortController.signal)
+    );
+
+    // Waiting for the first chunk lets early failures still get a JSON error.
+    // A later failure can only abort the stream; it is logged with its index.
+    try {
+      await chunkAudio[0];
+    } catch (error) {
+      // Nobody will read the chunks already queued behind it
+      abortController.abort();
+      throw error;
+    }
+
+    const stream = createPartsStream(
+      chunkAudio,
+      value.format,
+      abortController,
+      (audio) => cacheSynthesis(plan, audio)
+    );
+
+    return new NextResponse(stream, { status: 200, headers });
   } catch (error) {
+    // Nobody is listening for the answer any more
+    if (request.signal.aborted) {
+      return new NextResponse(null, { status: 499 });
+    }
+
     console.error("Error in TTS API:", error);
-    return NextResponse.json(
-      {
-        message: "Failed to generate speech",
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
+    return errorResponse(toTTSError(error));
   }
 }
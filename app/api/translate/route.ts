@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { TRANSLATION_CONFIG } from "../../constants";
+import { mapWithConcurrency } from "../../libs/asyncHelpers";
+import {
+  getClientId,
+  ttsRateLimiter,
+} from "../../services/rateLimit/rateLimiter";
+import { getBackend } from "../../services/translation/registry";
+import { validateTranslateRequest } from "../../services/translation/validation";
+import { TTSError, TTSErrorCode } from "../../services/tts/errors";
+import {
+  errorResponse,
+  rateLimitError,
+  readJsonBody,
+  validationError,
+} from "../../services/tts/responses";
+import { toTTSError } from "../../services/tts/synthesis";
+
+const SUMMARY = "Failed to translate text";
+
+/**
+ * Translates text into each requested language. Answers with
+ * `{ translations: Translation[] }` in the order of `targetLanguages`.
+ */
+export async function POST(request: Request) {
+  try {
+    const backend = getBackend();
+    if (!backend) {
+      return errorResponse(
+        new TTSError(
+          TTSErrorCode.PROVIDER_UNAVAILABLE,
+          "No translation backend is configured",
+          503
+        ),
+        SUMMARY
+      );
+    }
+
+    const { body, response } = await readJsonBody(request);
+    if (response) return response;
+
+    const { value, fieldErrors } = validateTranslateRequest(body);
+    if (fieldErrors) return validationError(fieldErrors, SUMMARY);
+
+    // Each target language is a separate completion over the whole text
+    const limit = await ttsRateLimiter.consume(
+      getClientId(request),
+      value.text.length * value.targetLanguages.length
+    );
+    if (!limit.allowed) {
+      return errorResponse(
+        rateLimitError(limit.reason, limit.retryAfter),
+        SUMMARY
+      );
+    }
+
+    const translations = await mapWithConcurrency(
+      value.targetLanguages,
+      TRANSLATION_CONFIG.CONCURRENCY,
+      async (language) => ({
+        language,
+        text: await backend.translate({
+          text: value.text,
+          sourceLanguage: value.sourceLanguage,
+          targetLanguage: language,
+          signal: request.signal,
+        }),
+      })
+    );
+
+    return NextResponse.json({ translations });
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new NextResponse(null, { status: 499 });
+    }
+
+    console.error("Error in translate API:", error);
+    return errorResponse(toTTSError(error), SUMMARY);
+  }
+}
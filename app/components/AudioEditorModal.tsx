@@ -0,0 +1,251 @@
+import {
+  Pause,
+  Play,
+  Redo2,
+  Scissors,
+  SplitSquareHorizontal,
+  Undo2,
+} from "lucide-react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import useAudioEditor, { Selection } from "../hooks/useAudioEditor";
+import { AudioEdit, getWaveformPeaks } from "../libs/audioEdits";
+import Modal from "./Modal";
+
+export interface EditableAudio {
+  id: string;
+  text: string;
+  audioBinary: ArrayBuffer;
+}
+
+interface AudioEditorModalProps {
+  item: EditableAudio | null;
+  // Stores each file as a new history item next to the original
+  onSave: (sourceId: string, audioBinaries: ArrayBuffer[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 160;
+// Drags shorter than this are treated as a click that moves the cursor
+const MIN_SELECTION_PX = 3;
+
+const EDIT_ACTIONS: { type: AudioEdit["type"]; label: string }[] = [
+  { type: "trim", label: "Trim to selection" },
+  { type: "cut", label: "Cut" },
+  { type: "fadeIn", label: "Fade in" },
+  { type: "fadeOut", label: "Fade out" },
+];
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, "0")}`;
+
+const AudioEditorModal: React.FC<AudioEditorModalProps> = ({
+  item,
+  onSave,
+  onClose,
+}) => {
+  const editor = useAudioEditor(item?.audioBinary ?? null);
+  const {
+    preview,
+    duration,
+    selection,
+    setSelection,
+    cursor,
+    setCursor,
+    playhead,
+  } = editor;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStartRef = useRef<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const peaks = useMemo(
+    () => (preview ? getWaveformPeaks(preview, CANVAS_WIDTH) : null),
+    [preview]
+  );
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    const toX = (time: number) => (time / (duration || 1)) * CANVAS_WIDTH;
+
+    if (selection) {
+      context.fillStyle = "rgba(0, 0, 0, 0.12)";
+      context.fillRect(
+        toX(selection.start),
+        0,
+        toX(selection.end) - toX(selection.start),
+        CANVAS_HEIGHT
+      );
+    }
+
+    if (peaks) {
+      const middle = CANVAS_HEIGHT / 2;
+      context.fillStyle = "#374151";
+      peaks.forEach((peak, x) => {
+        const height = Math.max(1, peak * (CANVAS_HEIGHT - 4));
+        context.fillRect(x, middle - height / 2, 1, height);
+      });
+    }
+
+    context.fillStyle = "#dc2626";
+    context.fillRect(toX(playhead ?? cursor), 0, 1, CANVAS_HEIGHT);
+  }, [peaks, duration, selection, cursor, playhead]);
+
+  const getTime = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - rect.left) / rect.width;
+    return Math.max(0, Math.min(1, ratio)) * duration;
+  };
+
+  const toSelection = (from: number, to: number): Selection => ({
+    start: Math.min(from, to),
+    end: Math.max(from, to),
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = getTime(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragStartRef.current === null) return;
+    setSelection(toSelection(dragStartRef.current, getTime(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    if (start === null) return;
+
+    const end = getTime(event);
+    const width = event.currentTarget.getBoundingClientRect().width;
+    if ((Math.abs(end - start) / (duration || 1)) * width < MIN_SELECTION_PX) {
+      setSelection(null);
+      setCursor(end);
+    } else {
+      setSelection(toSelection(start, end));
+    }
+  };
+
+  const save = async (splitAt?: number) => {
+    if (!item) return;
+    setIsSaving(true);
+    try {
+      await onSave(item.id, await editor.exportAudio(splitAt));
+      onClose();
+    } catch (error) {
+      console.error("Failed to save edited audio:", error);
+      toast.error("Failed to save edited audio");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Splitting at either end would leave an empty half
+  const canSplit = cursor > 0.05 && cursor < duration - 0.05;
+  const isBusy = editor.isDecoding || !preview || isSaving;
+
+  const content = (
+    <div className="flex flex-col gap-4 sm:w-[48rem]">
+      {editor.isDecoding ? (
+        <div className="flex justify-center items-center h-40">
+          <div className="loader"></div>
+        </div>
+      ) : (
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="w-full h-40 bg-gray-50 border border-gray-200 rounded-md cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      )}
+
+      <div className="flex justify-between text-xs font-mono text-gray-600">
+        <span>
+          {selection
+            ? `${formatTime(selection.start)} – ${formatTime(selection.end)}`
+            : `Cursor ${formatTime(cursor)}`}
+        </span>
+        <span>{formatTime(duration)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={editor.togglePlayback}
+          disabled={isBusy}
+          className="flex items-center gap-1 px-3 py-1.5 bg-black hover:bg-gray-800 text-white text-sm rounded-md disabled:opacity-50"
+        >
+          {editor.isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          {editor.isPlaying ? "Stop" : selection ? "Play selection" : "Play"}
+        </button>
+        {EDIT_ACTIONS.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => editor.applyToSelection(type)}
+            disabled={isBusy || !selection}
+            className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 hover:bg-gray-100 text-gray-700 text-sm rounded-md disabled:opacity-50"
+          >
+            {type === "cut" && <Scissors size={14} />}
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={editor.undo}
+          disabled={isBusy || !editor.canUndo}
+          className="p-1.5 border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+          aria-label="Undo"
+        >
+          <Undo2 size={16} />
+        </button>
+        <button
+          onClick={editor.redo}
+          disabled={isBusy || !editor.canRedo}
+          className="p-1.5 border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+          aria-label="Redo"
+        >
+          <Redo2 size={16} />
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Drag across the waveform to select a range, or click to place the
+        cursor. The original is kept; saving adds a new version.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => save(cursor)}
+          disabled={isBusy || !canSplit}
+          className="flex items-center gap-1 px-4 py-2 border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+        >
+          <SplitSquareHorizontal size={16} />
+          Split at cursor
+        </button>
+        <button
+          onClick={() => save()}
+          disabled={isBusy || !editor.canUndo}
+          className="px-4 py-2 bg-gray-900 hover:bg-black text-white rounded-md disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Save as new version"}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={item !== null}
+      onClose={onClose}
+      title={item ? `Edit "${item.text.slice(0, 40)}"` : ""}
+      content={content}
+    />
+  );
+};
+
+export default AudioEditorModal;
@@ -1,12 +1,24 @@
 import React from "react";
+import { AUDIO_FORMATS, AudioFormat } from "../constants";
+import { WordTimings } from "../libs/wordTimings";
 import CustomAudioPlayer from "./CustomAudioPlayer";
 
 interface AudioPlayerProps {
-  audioUrl: string | null;
+  audio: {
+    audioUrl: string;
+    downloadUrl?: string;
+    format?: AudioFormat;
+    timings?: WordTimings;
+  } | null;
   isLoading: boolean;
+  isStreaming?: boolean;
 }
 
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isLoading }) => {
+const AudioPlayer: React.FC<AudioPlayerProps> = ({
+  audio,
+  isLoading,
+  isStreaming = false,
+}) => {
   return (
     <div className="mt-4">
       <h3 className="text-lg font-semibold mb-2">Current Audio</h3>
@@ -16,7 +28,17 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, isLoading }) => {
         </div>
       ) : (
         <div id="audioContainer" className="w-full">
-          {audioUrl && <CustomAudioPlayer audioUrl={audioUrl} />}
+          {audio && (
+            <CustomAudioPlayer
+              audioUrl={audio.audioUrl}
+              downloadUrl={audio.downloadUrl}
+              fileExtension={AUDIO_FORMATS[audio.format || "mp3"].extension}
+              isStreaming={isStreaming}
+              autoPlay={isStreaming}
+              timings={audio.timings}
+              showTranscriptByDefault
+            />
+          )}
         </div>
       )}
     </div>
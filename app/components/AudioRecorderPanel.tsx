@@ -1,25 +1,52 @@
 import useAudioRecorder from "../hooks/useAudioRecorder";
 import { useBreakpoints } from "../hooks/useBreakpoints";
+import useRecorderSettings from "../hooks/useRecorderSettings";
+import useRevoice from "../hooks/useRevoice";
+import useAudioProcessing from "../hooks/useAudioProcessing";
+import useSilenceTools from "../hooks/useSilenceTools";
+import AudioEditorModal from "./AudioEditorModal";
 import AudiosHistory from "./AudiosHistory";
 import RecordButton from "./RecordButton";
+import RecorderMonitor from "./RecorderMonitor";
+import RecorderSettingsPanel from "./RecorderSettingsPanel";
+import RevoiceModal from "./RevoiceModal";
+import UnfinishedRecordings from "./UnfinishedRecordings";
 import { useState, useRef } from "react";
 
 const AudioRecorderPanel = () => {
   const { isMobile } = useBreakpoints();
+  const recorderSettings = useRecorderSettings();
   const {
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     isRecording,
+    isPaused,
+    elapsedMs,
+    level,
+    waveform,
     recordings,
     deleteRecording,
     uploadRecordings,
-  } = useAudioRecorder();
+    transcribeRecording,
+    transcribingIds,
+    saveEditedVersions,
+    unfinishedRecordings,
+    recoverRecording,
+    discardUnfinishedRecording,
+  } = useAudioRecorder(recorderSettings.settings);
+  const { openRevoice, closeRevoice, ...revoice } =
+    useRevoice(transcribeRecording);
 
   const [isDragging, setIsDragging] = useState(false);
   const [uploadingFiles, setUploadingFiles] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const silenceTools = useSilenceTools(recordings, saveEditedVersions);
+  const processingTools = useAudioProcessing(recordings, saveEditedVersions);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files && files.length > 0) {
       setUploadingFiles(true);
@@ -27,7 +54,7 @@ const AudioRecorderPanel = () => {
         Array.from(files).forEach((file) => {
           console.log("Uploading file:", file.name);
         });
-        uploadRecordings(Array.from(files));
+        await uploadRecordings(Array.from(files));
       } finally {
         setUploadingFiles(false);
         // Reset file input
@@ -47,30 +74,32 @@ const AudioRecorderPanel = () => {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
 
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
-      const audioFiles = Array.from(files).filter(
-        (file) => file.type.startsWith("audio/") || file.name.endsWith(".mp3")
-      );
-
-      if (audioFiles.length > 0) {
-        setUploadingFiles(true);
-        try {
-          audioFiles.forEach((file) => {
-            console.log("Uploading file:", file.name);
-          });
-          uploadRecordings(audioFiles);
-        } finally {
-          setUploadingFiles(false);
-        }
+      // Files are sniffed on upload, so an empty or wrong type is fine here
+      const audioFiles = Array.from(files);
+
+      setUploadingFiles(true);
+      try {
+        audioFiles.forEach((file) => {
+          console.log("Uploading file:", file.name);
+        });
+        await uploadRecordings(audioFiles);
+      } finally {
+        setUploadingFiles(false);
       }
     }
   };
 
+  const handleRevoice = (id: string) => {
+    const recording = recordings.find((item) => item.id === id);
+    if (recording) openRevoice(recording);
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
@@ -85,6 +114,12 @@ const AudioRecorderPanel = () => {
           >
             {/* Left Panel (Recording) */}
             <div id="recording-panel" className="md:w-2/3 flex flex-col">
+              <UnfinishedRecordings
+                recordings={unfinishedRecordings}
+                recoverRecording={recoverRecording}
+                discardRecording={discardUnfinishedRecording}
+              />
+
               {/* Audio Recording Section */}
               <div className="bg-gray-50 p-6 rounded-lg mb-4">
                 <h2 className="text-xl font-semibold mb-2">Audio Recorder</h2>
@@ -95,6 +130,21 @@ const AudioRecorderPanel = () => {
                 <RecordButton
                   startRecording={startRecording}
                   stopRecording={stopRecording}
+                  pauseRecording={pauseRecording}
+                  resumeRecording={resumeRecording}
+                  isRecording={isRecording}
+                  isPaused={isPaused}
+                />
+                {isRecording && (
+                  <RecorderMonitor
+                    isPaused={isPaused}
+                    elapsedMs={elapsedMs}
+                    level={level}
+                    waveform={waveform}
+                  />
+                )}
+                <RecorderSettingsPanel
+                  {...recorderSettings}
                   isRecording={isRecording}
                 />
               </div>
@@ -114,7 +164,7 @@ const AudioRecorderPanel = () => {
               >
                 <input
                   type="file"
-                  accept="audio/*,.mp3"
+                  accept="audio/*,.mp3,.m4a,.flac,.ogg,.opus,.webm,.wav,.aac"
                   multiple
                   onChange={handleUpload}
                   className="hidden"
@@ -165,10 +215,25 @@ const AudioRecorderPanel = () => {
             </div>
 
             {/* Right Panel: History of Audios */}
-            <AudiosHistory audios={recordings} deleteItem={deleteRecording} />
+            <AudiosHistory
+              audios={recordings}
+              deleteItem={deleteRecording}
+              transcribe={transcribeRecording}
+              transcribingIds={transcribingIds}
+              revoice={handleRevoice}
+              edit={setEditingId}
+              silenceTools={silenceTools}
+              processingTools={processingTools}
+            />
           </div>
         </div>
       </div>
+      <RevoiceModal {...revoice} onClose={closeRevoice} />
+      <AudioEditorModal
+        item={recordings.find((item) => item.id === editingId) ?? null}
+        onSave={saveEditedVersions}
+        onClose={() => setEditingId(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,91 @@
+import React from "react";
+import {
+  AudioFormat,
+  LOUDNESS_TARGETS,
+  TTS_CONFIG,
+  TTSModel,
+} from "../constants";
+import CustomDropdown from "./CustomDropdown";
+
+interface AudioSettingsProps {
+  speed: number;
+  setSpeed: (speed: number) => void;
+  model: TTSModel;
+  setModel: (model: TTSModel) => void;
+  models: Record<string, string>;
+  format: AudioFormat;
+  setFormat: (format: AudioFormat) => void;
+  formats: Record<string, string>;
+  normalizeLufs: number;
+  setNormalizeLufs: (normalizeLufs: number) => void;
+  isLoading: boolean;
+}
+
+const AudioSettings: React.FC<AudioSettingsProps> = ({
+  speed,
+  setSpeed,
+  model,
+  setModel,
+  models,
+  format,
+  setFormat,
+  formats,
+  normalizeLufs,
+  setNormalizeLufs,
+  isLoading,
+}) => {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="flex flex-col">
+        <label htmlFor="speedInput" className="block text-gray-700">
+          Speed: {speed.toFixed(2)}x
+        </label>
+        <input
+          id="speedInput"
+          type="range"
+          className="w-full mt-4 accent-black cursor-pointer"
+          min={TTS_CONFIG.MIN_SPEED}
+          max={TTS_CONFIG.MAX_SPEED}
+          step="0.05"
+          value={speed}
+          onChange={(e) => setSpeed(parseFloat(e.target.value))}
+          onDoubleClick={() => setSpeed(1)}
+          disabled={isLoading}
+          aria-label="Speech speed"
+        />
+      </div>
+
+      <div className="flex flex-col">
+        <span className="block text-gray-700">Quality</span>
+        <CustomDropdown
+          options={models}
+          value={model}
+          onChange={(value) => setModel(value as TTSModel)}
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="flex flex-col">
+        <span className="block text-gray-700">Format</span>
+        <CustomDropdown
+          options={formats}
+          value={format}
+          onChange={(value) => setFormat(value as AudioFormat)}
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="flex flex-col">
+        <span className="block text-gray-700">Loudness</span>
+        <CustomDropdown
+          options={LOUDNESS_TARGETS}
+          value={normalizeLufs.toString()}
+          onChange={(value) => setNormalizeLufs(Number(value))}
+          disabled={isLoading}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettings;
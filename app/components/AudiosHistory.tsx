@@ -1,17 +1,82 @@
-import { Trash2 } from "lucide-react";
+import {
+  FileText,
+  Loader2,
+  ScissorsLineDashed,
+  ScrollText,
+  Trash2,
+  WandSparkles,
+} from "lucide-react";
 import React, { useState } from "react";
+import { AUDIO_FORMATS, AudioFormat } from "../constants";
+import { ProcessingTools } from "../hooks/useAudioProcessing";
 import { useBreakpoints } from "../hooks/useBreakpoints";
+import { SilenceTools } from "../hooks/useSilenceTools";
+import { AudioMetadata, CONTAINER_FORMATS } from "../libs/audioProbe";
+import { TranslationTag } from "../libs/indexedDBHelpers";
+import { WordTimings } from "../libs/wordTimings";
 import CustomAudioPlayer from "./CustomAudioPlayer";
 import Modal from "./Modal";
+import ProcessingMenu from "./ProcessingMenu";
+import SilenceMenu from "./SilenceMenu";
 
 interface AudiosHistoryProps {
-  audios: { id: string; text: string; audioUrl: string }[];
+  audios: {
+    id: string;
+    text: string;
+    audioUrl: string;
+    downloadUrl?: string;
+    format?: AudioFormat;
+    script?: unknown;
+    stems?: { name: string; audioUrl?: string; downloadUrl?: string }[];
+    timings?: WordTimings;
+    sourceRecording?: { id: string; text: string };
+    translation?: TranslationTag;
+    metadata?: AudioMetadata;
+  }[];
   deleteItem: (id: string) => Promise<void>;
+  // Reopens a dialogue render in the script editor
+  openScript?: (id: string) => void;
+  // Offered for items without a transcript
+  transcribe?: (id: string) => void;
+  transcribingIds?: string[];
+  // Synthesizes a clean version of a recording
+  revoice?: (id: string) => void;
+  // Opens the waveform editor
+  edit?: (id: string) => void;
+  silenceTools?: SilenceTools;
+  processingTools?: ProcessingTools;
 }
 
+const formatDuration = (seconds: number) => {
+  const totalSeconds = Math.round(seconds);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60)
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+const describeMetadata = ({
+  format,
+  duration,
+  sampleRate,
+  channels,
+}: AudioMetadata) =>
+  [
+    CONTAINER_FORMATS[format].label,
+    formatDuration(duration),
+    `${sampleRate / 1000} kHz`,
+    channels === 1 ? "mono" : channels === 2 ? "stereo" : `${channels} ch`,
+  ].join(" · ");
+
 const AudiosHistory: React.FC<AudiosHistoryProps> = ({
   audios,
   deleteItem,
+  openScript,
+  transcribe,
+  transcribingIds = [],
+  revoice,
+  edit,
+  silenceTools,
+  processingTools,
 }) => {
   const { isMobile } = useBreakpoints();
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -64,20 +129,127 @@ const AudiosHistory: React.FC<AudiosHistoryProps> = ({
                     className="text-sm text-gray-700"
                     style={{ wordBreak: "break-word" }}
                   >
+                    {audio.translation && (
+                      <span
+                        className="mr-1 px-1.5 py-0.5 text-xs font-medium uppercase bg-gray-200 text-gray-600 rounded"
+                        title={audio.translation.sourceText}
+                      >
+                        {audio.translation.sourceLanguage} →{" "}
+                        {audio.translation.targetLanguage}
+                      </span>
+                    )}
                     {truncatedText}
                   </p>
 
-                  <button
-                    onClick={() => openModal(audio.id)}
-                    className="text-red-500 flex justify-between align-items-start"
-                  >
-                    <Trash2 width={16} height={16} />
-                  </button>
+                  <div className="flex gap-2 items-start">
+                    {transcribingIds.includes(audio.id) ? (
+                      <Loader2
+                        width={16}
+                        height={16}
+                        className="text-gray-500 animate-spin"
+                        aria-label="Transcribing"
+                      />
+                    ) : (
+                      transcribe &&
+                      !audio.timings && (
+                        <button
+                          onClick={() => transcribe(audio.id)}
+                          className="text-gray-600 hover:text-black"
+                          title="Transcribe"
+                        >
+                          <ScrollText width={16} height={16} />
+                        </button>
+                      )
+                    )}
+                    {audio.script !== undefined && openScript && (
+                      <button
+                        onClick={() => openScript(audio.id)}
+                        className="text-gray-600 hover:text-black"
+                        title="Edit script"
+                      >
+                        <FileText width={16} height={16} />
+                      </button>
+                    )}
+                    {silenceTools && (
+                      <SilenceMenu id={audio.id} tools={silenceTools} />
+                    )}
+                    {processingTools && (
+                      <ProcessingMenu id={audio.id} tools={processingTools} />
+                    )}
+                    {edit && (
+                      <button
+                        onClick={() => edit(audio.id)}
+                        className="text-gray-600 hover:text-black"
+                        title="Edit audio"
+                      >
+                        <ScissorsLineDashed width={16} height={16} />
+                      </button>
+                    )}
+                    {revoice && (
+                      <button
+                        onClick={() => revoice(audio.id)}
+                        className="text-gray-600 hover:text-black"
+                        title="Re-voice"
+                      >
+                        <WandSparkles width={16} height={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => openModal(audio.id)}
+                      className="text-red-500 flex justify-between align-items-start"
+                    >
+                      <Trash2 width={16} height={16} />
+                    </button>
+                  </div>
                 </div>
                 <CustomAudioPlayer
                   audioUrl={audio.audioUrl}
+                  downloadUrl={audio.downloadUrl}
+                  fileExtension={
+                    audio.format
+                      ? AUDIO_FORMATS[audio.format].extension
+                      : audio.metadata &&
+                        CONTAINER_FORMATS[audio.metadata.format].extension
+                  }
                   title={truncatedText}
+                  timings={audio.timings}
+                  silence={silenceTools?.analyses[audio.id]}
                 />
+                {audio.metadata && (
+                  <span className="text-xs text-gray-500">
+                    {describeMetadata(audio.metadata)}
+                  </span>
+                )}
+                {audio.sourceRecording && (
+                  <a
+                    href="?tab=audio_recorder"
+                    className="text-xs text-gray-600 underline hover:text-black"
+                    title={audio.sourceRecording.text}
+                  >
+                    Re-voiced from recording &ldquo;
+                    {audio.sourceRecording.text.length > 30
+                      ? audio.sourceRecording.text.slice(0, 30) + "..."
+                      : audio.sourceRecording.text}
+                    &rdquo;
+                  </a>
+                )}
+                {audio.stems && audio.stems.length > 0 && (
+                  <div className="flex flex-wrap gap-x-3 text-xs text-gray-600">
+                    Stems:
+                    {audio.stems.map((stem) => (
+                      <a
+                        key={stem.name}
+                        href={stem.downloadUrl || stem.audioUrl}
+                        download={`${stem.name}.${
+                          AUDIO_FORMATS[audio.format || "mp3"].extension
+                        }`}
+                        className="underline hover:text-black"
+                      >
+                        {stem.name}
+                      </a>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           );
@@ -0,0 +1,148 @@
+import { CheckCircle2, Clock, Loader2, RotateCcw, XCircle } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { TTS_CONFIG } from "../constants";
+import { BatchJob, BatchJobStatus } from "../hooks/useBatchSynthesis";
+import { BatchInputItem, parseBatchInput } from "../libs/batchInput";
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  isRunning: boolean;
+  startBatch: (items: BatchInputItem[]) => Promise<void>;
+  retryJobs: (ids?: string[]) => Promise<void>;
+  cancelBatch: () => void;
+  clearJobs: () => void;
+}
+
+const STATUS_ICONS: Record<BatchJobStatus, React.ReactNode> = {
+  queued: <Clock className="w-4 h-4 text-gray-400" />,
+  running: <Loader2 className="w-4 h-4 text-gray-700 animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  error: <XCircle className="w-4 h-4 text-red-500" />,
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  jobs,
+  isRunning,
+  startBatch,
+  retryJobs,
+  cancelBatch,
+  clearJobs,
+}) => {
+  const [input, setInput] = useState("");
+  const { items, isCsv } = useMemo(() => parseBatchInput(input), [input]);
+
+  const doneCount = jobs.filter((job) => job.status === "done").length;
+  const failedCount = jobs.filter((job) => job.status === "error").length;
+  const isTooLarge = items.length > TTS_CONFIG.MAX_BATCH_ITEMS;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div>
+        <span className="block text-gray-700">
+          Batch items (one per line, or CSV with text and voice columns):
+        </span>
+        <textarea
+          className="w-full p-3 text-gray-700 rounded-md transition resize-none h-32 border border-gray-300 focus:outline-none focus:border-gray-700 font-mono text-sm"
+          placeholder={
+            "First clip\nSecond clip\n\nor\n\ntext,voice\nHello there,nova"
+          }
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          disabled={isRunning}
+        />
+        <span
+          className={`text-sm ${isTooLarge ? "text-red-600" : "text-gray-500"}`}
+        >
+          {items.length} item{items.length === 1 ? "" : "s"}
+          {isCsv && " from CSV"}
+          {isTooLarge && ` · at most ${TTS_CONFIG.MAX_BATCH_ITEMS} per batch`}
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          className={`w-full p-3 bg-black hover:bg-gray-800 text-white font-semibold rounded-lg transition ${
+            isRunning || items.length === 0 || isTooLarge
+              ? "opacity-50 cursor-not-allowed"
+              : ""
+          }`}
+          onClick={() => startBatch(items)}
+          disabled={isRunning || items.length === 0 || isTooLarge}
+        >
+          Generate {items.length || ""} Clips
+        </button>
+        {isRunning && (
+          <button
+            className="px-4 p-3 border border-gray-300 hover:bg-gray-100 text-gray-700 font-semibold rounded-lg transition"
+            onClick={cancelBatch}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="flex justify-between items-center text-sm text-gray-700">
+            <span>
+              {doneCount} of {jobs.length} done
+              {failedCount > 0 && `, ${failedCount} failed`}
+            </span>
+            <div className="flex gap-3">
+              {failedCount > 0 && !isRunning && (
+                <button
+                  className="flex items-center gap-1 hover:underline"
+                  onClick={() => retryJobs()}
+                >
+                  <RotateCcw className="w-4 h-4" /> Retry failed
+                </button>
+              )}
+              {!isRunning && (
+                <button className="hover:underline" onClick={clearJobs}>
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-black transition-all"
+              style={{ width: `${(doneCount / jobs.length) * 100}%` }}
+            />
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {jobs.map((job) => (
+              <li key={job.id} className="flex items-start gap-2 p-2 text-sm">
+                <span className="mt-0.5">{STATUS_ICONS[job.status]}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-gray-700" title={job.text}>
+                    {job.text}
+                  </p>
+                  {job.voice && (
+                    <p className="text-xs text-gray-500">Voice: {job.voice}</p>
+                  )}
+                  {job.error && (
+                    <p className="text-xs text-red-600">{job.error}</p>
+                  )}
+                </div>
+                {job.status === "error" && !isRunning && (
+                  <button
+                    className="text-gray-600 hover:text-black"
+                    onClick={() => retryJobs([job.id])}
+                    aria-label="Retry item"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -1,4 +1,4 @@
-import { Download, Pause, Play, Repeat, Volume2, VolumeX } from "lucide-react";
+import { Captions, Pause, Play, Repeat, Volume2, VolumeX } from "lucide-react";
 import React, {
   useCallback,
   useEffect,
@@ -6,11 +6,29 @@ import React, {
   useRef,
   useState,
 } from "react";
+import { SilenceAnalysis } from "../libs/silenceDetection";
+import { WordTimings } from "../libs/wordTimings";
 import { useAudioStore } from "../store/audioStore";
+import DownloadMenu from "./DownloadMenu";
+import SubtitleExportMenu from "./SubtitleExportMenu";
+import Transcript from "./Transcript";
 
 interface CustomAudioPlayerProps {
   audioUrl: string;
   title?: string;
+  // Defaults to audioUrl; differs when playback needs a converted copy
+  downloadUrl?: string;
+  // Sniffed from the stored bytes when missing
+  fileExtension?: string;
+  // Start playing as soon as enough data is buffered
+  autoPlay?: boolean;
+  // Audio is still arriving, so there is nothing to download yet
+  isStreaming?: boolean;
+  // Enables the synchronized transcript
+  timings?: WordTimings;
+  showTranscriptByDefault?: boolean;
+  // Silent stretches marked on the progress bar
+  silence?: SilenceAnalysis;
 }
 
 let cachedPlaybackRate: number = 1;
@@ -20,6 +38,13 @@ let cachedIsMuted: boolean = false;
 const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
   title = "audio",
   audioUrl,
+  downloadUrl,
+  fileExtension,
+  autoPlay = false,
+  isStreaming = false,
+  timings,
+  showTranscriptByDefault = false,
+  silence,
 }) => {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const { currentPlayingId, setCurrentPlayingId } = useAudioStore();
@@ -30,6 +55,11 @@ const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
   const [isMuted, setIsMuted] = useState<boolean>(cachedIsMuted);
   const [playbackRate, setPlaybackRate] = useState<number>(cachedPlaybackRate);
   const [isRepeating, setIsRepeating] = useState<boolean>(false);
+  const [showTranscript, setShowTranscript] = useState<boolean>(
+    showTranscriptByDefault
+  );
+  const hasTranscript = !!timings && timings.words.length > 0;
+  const isTranscriptVisible = hasTranscript && showTranscript;
 
   // Memoized event handlers for audio element
   const setAudioData = useCallback(() => {
@@ -130,19 +160,19 @@ const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
     []
   );
 
+  const seekTo = useCallback((time: number) => {
+    if (!audioRef.current) return;
+
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  }, []);
+
   const handlePlaybackRateChange = useCallback((rate: number) => {
     if (!audioRef.current) return;
     audioRef.current.playbackRate = rate;
     setPlaybackRate(rate);
   }, []);
 
-  const handleDownload = useCallback(() => {
-    const link = document.createElement("a");
-    link.href = audioUrl;
-    link.download = `${title}-${Date.now()}.mp3`;
-    link.click();
-  }, [audioUrl, title]);
-
   const formatTime = useCallback((time: number): string => {
     if (isNaN(time)) return "00:00";
     const minutes = Math.floor(time / 60);
@@ -205,6 +235,39 @@ const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
     };
   }, [audioUrl, setAudioData, setAudioTime, onEnded, onDurationChange]);
 
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !autoPlay) return;
+
+    const startPlayback = () => {
+      audio
+        .play()
+        .then(() => {
+          setIsPlaying(true);
+          setCurrentPlayingId(audioUrl);
+        })
+        .catch((error) => {
+          // Autoplay can be blocked by the browser; the user can still press play
+          console.warn("Autoplay prevented:", error);
+        });
+    };
+
+    audio.addEventListener("canplay", startPlayback, { once: true });
+    return () => audio.removeEventListener("canplay", startPlayback);
+  }, [audioUrl, autoPlay, setCurrentPlayingId]);
+
+  // timeupdate fires only a few times a second, which is too coarse for
+  // word highlighting
+  useEffect(() => {
+    if (!isTranscriptVisible || !isPlaying) return;
+
+    let frame = requestAnimationFrame(function tick() {
+      setAudioTime();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isTranscriptVisible, isPlaying, setAudioTime]);
+
   useEffect(() => {
     if (audioRef.current) {
       audioRef.current.playbackRate = playbackRate;
@@ -248,6 +311,16 @@ const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
             className="absolute h-full bg-gray-500 transition-all"
             style={{ width: `${progressPercentage}%` }}
           />
+          {silence?.regions.map(({ start, end }) => (
+            <div
+              key={start}
+              className="absolute h-full bg-amber-400 opacity-70"
+              style={{
+                left: `${(start / silence.duration) * 100}%`,
+                width: `${((end - start) / silence.duration) * 100}%`,
+              }}
+            />
+          ))}
           <input
             type="range"
             className="absolute w-full h-full opacity-0 cursor-pointer"
@@ -311,13 +384,35 @@ const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
             <Repeat size={16} />
           </button>
 
-          <button
-            onClick={handleDownload}
-            className="p-2 text-gray-600 hover:text-blue-500 transition-colors"
-            aria-label="Download Audio"
-          >
-            <Download size={16} />
-          </button>
+          {hasTranscript && (
+            <button
+              onClick={() => setShowTranscript(!showTranscript)}
+              className={`p-2 text-gray-600 transition-colors ${
+                showTranscript ? "text-blue-500" : ""
+              }`}
+              aria-label={
+                showTranscript ? "Hide Transcript" : "Show Transcript"
+              }
+            >
+              <Captions size={16} />
+            </button>
+          )}
+
+          {hasTranscript && timings && (
+            <SubtitleExportMenu
+              timings={timings}
+              title={title}
+              disabled={isStreaming}
+            />
+          )}
+
+          <DownloadMenu
+            audioUrl={audioUrl}
+            downloadUrl={downloadUrl}
+            fileExtension={fileExtension}
+            title={title}
+            disabled={isStreaming}
+          />
         </div>
       </div>
       <div className="flex justify-center items-center mt-2 gap-2">
@@ -336,6 +431,15 @@ const CustomAudioPlayer: React.FC<CustomAudioPlayerProps> = ({
           </button>
         ))}
       </div>
+      {isTranscriptVisible && timings && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <Transcript
+            timings={timings}
+            currentTime={currentTime}
+            onSeek={seekTo}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,158 @@
+import React from "react";
+import { AUDIO_FORMATS, AudioFormat } from "../constants";
+import { ScriptError } from "../libs/dialogueScript";
+import { MAX_PAUSE_MS } from "../libs/speechMarkup";
+import { TTSHistoryItem } from "../libs/indexedDBHelpers";
+import CustomAudioPlayer from "./CustomAudioPlayer";
+import CustomDropdown from "./CustomDropdown";
+import GenerateButton from "./GenerateButton";
+
+interface DialogueEditorProps {
+  script: string;
+  setScript: (script: string) => void;
+  errors: ScriptError[];
+  speakers: string[];
+  speakerVoices: Record<string, string>;
+  setSpeakerVoice: (speaker: string, voice: string) => void;
+  voices: Record<string, string>;
+  gapMs: number;
+  setGapMs: (gapMs: number) => void;
+  withStems: boolean;
+  setWithStems: (withStems: boolean) => void;
+  isGenerating: boolean;
+  lastItem: TTSHistoryItem | null;
+  generateDialogue: () => Promise<void>;
+  cancelDialogue: () => void;
+}
+
+const DialogueEditor: React.FC<DialogueEditorProps> = ({
+  script,
+  setScript,
+  errors,
+  speakers,
+  speakerVoices,
+  setSpeakerVoice,
+  voices,
+  gapMs,
+  setGapMs,
+  withStems,
+  setWithStems,
+  isGenerating,
+  lastItem,
+  generateDialogue,
+  cancelDialogue,
+}) => {
+  const extension =
+    AUDIO_FORMATS[(lastItem?.format || "mp3") as AudioFormat].extension;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <span className="block text-gray-700">Script:</span>
+        <textarea
+          className="w-full p-3 text-gray-700 rounded-md transition resize-none h-40 border border-gray-300 focus:outline-none focus:border-gray-700"
+          placeholder={
+            "Alice: Hi Bob, how was the trip?\nBob: Long, but worth it."
+          }
+          value={script}
+          onChange={(e) => setScript(e.target.value)}
+          disabled={isGenerating}
+        />
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600">
+            {errors.map((error, index) => (
+              <li key={index}>
+                Line {error.line}: {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {speakers.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <span className="block text-gray-700">Speakers</span>
+          {speakers.map((speaker) => (
+            <div key={speaker} className="grid grid-cols-2 gap-4 items-center">
+              <span className="text-gray-700 truncate" title={speaker}>
+                {speaker}
+              </span>
+              <CustomDropdown
+                options={voices}
+                value={speakerVoices[speaker]}
+                onChange={(voice) => setSpeakerVoice(speaker, voice)}
+                disabled={isGenerating}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="flex flex-col text-gray-700">
+          Gap between turns: {gapMs}ms
+          <input
+            type="range"
+            className="w-full mt-2 accent-black cursor-pointer"
+            min={0}
+            max={MAX_PAUSE_MS / 5}
+            step={50}
+            value={gapMs}
+            onChange={(e) => setGapMs(Number(e.target.value))}
+            disabled={isGenerating}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-700 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-black"
+            checked={withStems}
+            onChange={(e) => setWithStems(e.target.checked)}
+            disabled={isGenerating}
+          />
+          Also render one stem per speaker
+        </label>
+      </div>
+
+      <GenerateButton
+        generateSpeech={generateDialogue}
+        cancelGeneration={cancelDialogue}
+        isLoading={isGenerating}
+      />
+
+      {isGenerating ? (
+        <div className="flex justify-center mt-2 h-10">
+          <div className="loader"></div>
+        </div>
+      ) : (
+        lastItem && (
+          <div className="flex flex-col gap-2">
+            <CustomAudioPlayer
+              audioUrl={lastItem.audioUrl}
+              downloadUrl={lastItem.downloadUrl}
+              fileExtension={extension}
+              title="dialogue"
+              timings={lastItem.timings}
+              showTranscriptByDefault
+            />
+            {lastItem.stems?.map((stem) => (
+              <div key={stem.name} className="flex flex-col gap-1">
+                <span className="text-sm text-gray-600">Stem: {stem.name}</span>
+                {stem.audioUrl && (
+                  <CustomAudioPlayer
+                    audioUrl={stem.audioUrl}
+                    downloadUrl={stem.downloadUrl}
+                    fileExtension={extension}
+                    title={stem.name}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default DialogueEditor;
@@ -0,0 +1,204 @@
+import { Download, Loader2 } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  DOWNLOAD_CHANNEL_COUNTS,
+  DOWNLOAD_SAMPLE_RATES,
+  WAV_BIT_DEPTHS,
+} from "../constants";
+import {
+  DEFAULT_TRANSCODE_OPTIONS,
+  DOWNLOAD_ENCODINGS,
+  DownloadEncoding,
+  TranscodeOptions,
+  getContainerExtension,
+  getSupportedEncodings,
+  transcodeAudio,
+} from "../libs/audioTranscode";
+import CustomDropdown from "./CustomDropdown";
+
+interface DownloadMenuProps {
+  audioUrl: string;
+  downloadUrl?: string;
+  // Extension of the stored file; sniffed from its bytes when missing
+  fileExtension?: string;
+  title: string;
+  disabled?: boolean;
+}
+
+// Shared by all players so the conversion is set up once per session
+let cachedOptions: TranscodeOptions = DEFAULT_TRANSCODE_OPTIONS;
+
+const readAudio = async (url: string) => (await fetch(url)).arrayBuffer();
+
+const saveFile = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+const DownloadMenu: React.FC<DownloadMenuProps> = ({
+  audioUrl,
+  downloadUrl,
+  fileExtension,
+  title,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<TranscodeOptions>(cachedOptions);
+  const [encodings, setEncodings] = useState<DownloadEncoding[]>(["wav"]);
+  const [busyFormat, setBusyFormat] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const storedUrl = downloadUrl || audioUrl;
+
+  // MediaRecorder support is only known in the browser
+  useEffect(() => {
+    setEncodings(getSupportedEncodings());
+  }, []);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const updateOption = (key: keyof TranscodeOptions, value: string) => {
+    const next = { ...options, [key]: Number(value) };
+    cachedOptions = next;
+    setOptions(next);
+  };
+
+  const downloadOriginal = async () => {
+    setBusyFormat("original");
+    try {
+      const extension =
+        fileExtension ??
+        getContainerExtension(await readAudio(storedUrl)) ??
+        "bin";
+      saveFile(storedUrl, `${title}-${Date.now()}.${extension}`);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Failed to download audio:", error);
+      toast.error("Failed to download audio");
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const downloadConverted = async (format: DownloadEncoding) => {
+    setBusyFormat(format);
+    try {
+      const stored = await readAudio(storedUrl);
+      // Raw PCM has no header to decode by, but its playable copy does
+      const source =
+        getContainerExtension(stored) || storedUrl === audioUrl
+          ? stored
+          : await readAudio(audioUrl);
+
+      const url = URL.createObjectURL(
+        await transcodeAudio(source, format, options)
+      );
+      saveFile(
+        url,
+        `${title}-${Date.now()}.${DOWNLOAD_ENCODINGS[format].extension}`
+      );
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Failed to convert audio:", error);
+      toast.error(`Failed to convert to ${DOWNLOAD_ENCODINGS[format].label}`);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-2 text-gray-600 hover:text-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Download Audio"
+      >
+        {busyFormat ? (
+          <Loader2 size={16} className="animate-spin" />
+        ) : (
+          <Download size={16} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-64 p-3 bg-white border border-gray-200 rounded-lg shadow-lg flex flex-col gap-2 text-sm">
+          <button
+            onClick={downloadOriginal}
+            disabled={!!busyFormat}
+            className="px-2 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Original{fileExtension ? ` (.${fileExtension})` : ""}
+          </button>
+
+          <div className="pt-2 border-t border-gray-100 flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="block text-gray-700">Sample rate</span>
+              <CustomDropdown
+                options={DOWNLOAD_SAMPLE_RATES}
+                value={options.sampleRate.toString()}
+                onChange={(value) => updateOption("sampleRate", value)}
+              />
+            </div>
+            <div className="flex flex-col">
+              <span className="block text-gray-700">Channels</span>
+              <CustomDropdown
+                options={DOWNLOAD_CHANNEL_COUNTS}
+                value={options.channels.toString()}
+                onChange={(value) => updateOption("channels", value)}
+              />
+            </div>
+            <div className="flex flex-col">
+              <span className="block text-gray-700">WAV bit depth</span>
+              <CustomDropdown
+                options={WAV_BIT_DEPTHS}
+                value={options.bitDepth.toString()}
+                onChange={(value) => updateOption("bitDepth", value)}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-1">
+              {encodings.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => downloadConverted(format)}
+                  disabled={!!busyFormat}
+                  className="flex-1 px-2 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50 whitespace-nowrap"
+                >
+                  {busyFormat === format ? (
+                    <Loader2 size={14} className="inline animate-spin" />
+                  ) : (
+                    DOWNLOAD_ENCODINGS[format].label
+                  )}
+                </button>
+              ))}
+            </div>
+            {encodings.length > 1 && (
+              <p className="text-xs text-gray-500">
+                Compressed formats are encoded in real time, so they take as
+                long as the audio plays.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DownloadMenu;
@@ -2,24 +2,36 @@ import React from "react";
 
 interface GenerateButtonProps {
   generateSpeech: () => Promise<void>;
+  cancelGeneration?: () => void;
   isLoading: boolean;
 }
 
 const GenerateButton: React.FC<GenerateButtonProps> = ({
   generateSpeech,
+  cancelGeneration,
   isLoading,
 }) => {
   return (
-    <button
-      id="generateButton"
-      className={`w-full p-3 bg-black hover:bg-gray-800 text-white font-semibold rounded-lg transition flex items-center justify-center ${
-        isLoading ? "opacity-50 cursor-not-allowed" : ""
-      }`}
-      onClick={generateSpeech}
-      disabled={isLoading}
-    >
-      Generate Speech
-    </button>
+    <div className="flex gap-2">
+      <button
+        id="generateButton"
+        className={`w-full p-3 bg-black hover:bg-gray-800 text-white font-semibold rounded-lg transition flex items-center justify-center ${
+          isLoading ? "opacity-50 cursor-not-allowed" : ""
+        }`}
+        onClick={generateSpeech}
+        disabled={isLoading}
+      >
+        Generate Speech
+      </button>
+      {isLoading && cancelGeneration && (
+        <button
+          className="px-4 p-3 border border-gray-300 hover:bg-gray-100 text-gray-700 font-semibold rounded-lg transition"
+          onClick={cancelGeneration}
+        >
+          Cancel
+        </button>
+      )}
+    </div>
   );
 };
 
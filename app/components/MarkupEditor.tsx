@@ -0,0 +1,108 @@
+import React, { useMemo, useRef } from "react";
+import { MarkupError } from "../libs/speechMarkup";
+
+interface MarkupEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: MarkupError[];
+  disabled?: boolean;
+}
+
+const TAG_PATTERN = /\\\[|\[\/?[a-z]+(?:[:\s][^\]]*)?\]/gi;
+
+interface Span {
+  text: string;
+  kind: "text" | "tag" | "error";
+}
+
+// Splits the text into plain, tag and error spans for the backdrop
+const getSpans = (value: string, errors: MarkupError[]): Span[] => {
+  const kinds = new Array<Span["kind"]>(value.length).fill("text");
+  Array.from(value.matchAll(TAG_PATTERN)).forEach((match) => {
+    const start = match.index ?? 0;
+    kinds.fill("tag", start, start + match[0].length);
+  });
+  errors.forEach(({ start, end }) => kinds.fill("error", start, end));
+
+  const spans: Span[] = [];
+  kinds.forEach((kind, index) => {
+    const last = spans[spans.length - 1];
+    if (last?.kind === kind) last.text += value[index];
+    else spans.push({ kind, text: value[index] });
+  });
+  return spans;
+};
+
+const SPAN_CLASSES: Record<Span["kind"], string> = {
+  text: "",
+  tag: "bg-gray-200 rounded",
+  error: "bg-red-200 rounded underline decoration-red-500 decoration-wavy",
+};
+
+/**
+ * Textarea for speech markup. Tags and markup errors are highlighted by a
+ * backdrop that mirrors the text underneath a transparent textarea.
+ */
+const MarkupEditor: React.FC<MarkupEditorProps> = ({
+  value,
+  onChange,
+  errors,
+  disabled,
+}) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const spans = useMemo(() => getSpans(value, errors), [value, errors]);
+  const sharedClasses =
+    "w-full h-32 p-3 text-gray-700 whitespace-pre-wrap break-words font-mono text-sm";
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="relative border border-gray-300 rounded-md focus-within:border-gray-700">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`${sharedClasses} absolute inset-0 overflow-hidden text-transparent`}
+        >
+          {spans.map((span, index) => (
+            <span key={index} className={SPAN_CLASSES[span.kind]}>
+              {span.text}
+            </span>
+          ))}
+          {/* Keeps a trailing newline from collapsing */}{" "}
+        </div>
+        <textarea
+          id="textInput"
+          className={`${sharedClasses} relative block bg-transparent resize-none focus:outline-none`}
+          placeholder="Hello [pause 500ms] [voice:nova]hi there[/voice], this is [spell]TTS[/spell]."
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) {
+              backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+            }
+          }}
+          disabled={disabled}
+          spellCheck={false}
+        />
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="text-sm text-red-600">
+          {errors.map((error, index) => (
+            <li key={index}>
+              {error.message} (at &quot;{value.slice(error.start, error.end)}
+              &quot;)
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <span className="text-xs text-gray-500">
+          Tags: [pause 500ms], [voice:name]…[/voice], [speed:1.2]…[/speed],
+          [spell]…[/spell], [emphasis]…[/emphasis]. Write \[ for a literal
+          bracket.
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default MarkupEditor;
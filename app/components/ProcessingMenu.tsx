@@ -0,0 +1,197 @@
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { LOUDNESS_TARGETS } from "../constants";
+import { ProcessingTools } from "../hooks/useAudioProcessing";
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  ProcessingOptions,
+  formatLoudness,
+} from "../libs/audioProcessing";
+import CustomDropdown from "./CustomDropdown";
+
+interface ProcessingMenuProps {
+  id: string;
+  tools: ProcessingTools;
+}
+
+type EffectKey = "highPass" | "gate" | "compressor" | "limiter";
+
+const EFFECTS: {
+  key: EffectKey;
+  label: string;
+  // The one numeric setting shown next to each effect
+  field: string;
+  unit: string;
+  min: number;
+  max: number;
+}[] = [
+  {
+    key: "highPass",
+    label: "High-pass",
+    field: "frequency",
+    unit: "Hz",
+    min: 20,
+    max: 500,
+  },
+  {
+    key: "gate",
+    label: "Noise gate",
+    field: "thresholdDb",
+    unit: "dB",
+    min: -90,
+    max: -10,
+  },
+  {
+    key: "compressor",
+    label: "Compressor",
+    field: "thresholdDb",
+    unit: "dB",
+    min: -60,
+    max: 0,
+  },
+  {
+    key: "limiter",
+    label: "Limiter",
+    field: "ceilingDb",
+    unit: "dBTP",
+    min: -6,
+    max: 0,
+  },
+];
+
+// Shared by all items so the chain is set up once per session
+let cachedOptions: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS;
+
+const ProcessingMenu: React.FC<ProcessingMenuProps> = ({ id, tools }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ProcessingOptions>(cachedOptions);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const measurement = tools.measurements[id];
+  const isBusy = tools.busyId === id;
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const updateOptions = (next: ProcessingOptions) => {
+    cachedOptions = next;
+    setOptions(next);
+  };
+
+  const updateEffect = (
+    key: EffectKey,
+    updates: Record<string, boolean | number>
+  ) => updateOptions({ ...options, [key]: { ...options[key], ...updates } });
+
+  const updateEffectValue = (
+    { key, field }: (typeof EFFECTS)[number],
+    value: string
+  ) => {
+    const number = parseFloat(value);
+    if (!isFinite(number)) return;
+    if (field === "frequency" ? number <= 0 : number > 0) return;
+    updateEffect(key, { [field]: number });
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-gray-600 hover:text-black"
+        title="Loudness and effects"
+      >
+        {isBusy ? (
+          <Loader2 width={16} height={16} className="animate-spin" />
+        ) : (
+          <SlidersHorizontal width={16} height={16} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-72 p-3 bg-white border border-gray-200 rounded-lg shadow-lg flex flex-col gap-2 text-sm">
+          <div className="flex flex-col">
+            <span className="block text-gray-700">Normalize to</span>
+            <CustomDropdown
+              options={LOUDNESS_TARGETS}
+              value={options.targetLufs.toString()}
+              onChange={(value) =>
+                updateOptions({ ...options, targetLufs: Number(value) })
+              }
+            />
+          </div>
+
+          {EFFECTS.map((effect) => {
+            const settings: Record<string, boolean | number> =
+              options[effect.key];
+            return (
+              <div
+                key={effect.key}
+                className="flex items-center justify-between gap-2"
+              >
+                <label className="flex items-center gap-2 text-gray-700 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4 accent-black"
+                    checked={options[effect.key].enabled}
+                    onChange={(e) =>
+                      updateEffect(effect.key, { enabled: e.target.checked })
+                    }
+                  />
+                  {effect.label}
+                </label>
+                <label className="flex items-center gap-1 text-gray-500">
+                  <input
+                    type="number"
+                    min={effect.min}
+                    max={effect.max}
+                    value={Number(settings[effect.field])}
+                    disabled={!options[effect.key].enabled}
+                    onChange={(e) => updateEffectValue(effect, e.target.value)}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+                  />
+                  {effect.unit}
+                </label>
+              </div>
+            );
+          })}
+
+          {measurement && (
+            <p className="text-xs text-gray-500">
+              {formatLoudness(measurement.integratedLufs)}, true peak{" "}
+              {isFinite(measurement.truePeakDb)
+                ? `${measurement.truePeakDb.toFixed(1)} dBTP`
+                : "none"}
+            </p>
+          )}
+
+          <button
+            onClick={() => tools.measure(id)}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Measure loudness
+          </button>
+          <button
+            onClick={() => tools.apply(id, options)}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md bg-black text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Process and save copy
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingMenu;
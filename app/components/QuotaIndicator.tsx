@@ -0,0 +1,45 @@
+import React from "react";
+import { QuotaStatus } from "../services/rateLimit/types";
+
+interface QuotaIndicatorProps {
+  quota: QuotaStatus | null;
+  textLength: number;
+}
+
+const formatCount = (value: number) => value.toLocaleString();
+
+const QuotaIndicator: React.FC<QuotaIndicatorProps> = ({
+  quota,
+  textLength,
+}) => {
+  if (!quota || quota.dailyCharactersRemaining === null) return null;
+
+  const remaining = quota.dailyCharactersRemaining;
+  const isOverQuota = textLength > remaining;
+  const isLow = remaining < quota.dailyCharacterQuota * 0.1;
+  const resetTime = new Date(quota.dailyResetAt).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <div
+      className={`text-sm ${
+        isOverQuota
+          ? "text-red-600"
+          : isLow
+          ? "text-amber-600"
+          : "text-gray-500"
+      }`}
+    >
+      {formatCount(remaining)} of {formatCount(quota.dailyCharacterQuota)}{" "}
+      characters left today
+      {quota.requestsRemaining !== null &&
+        ` · ${quota.requestsRemaining} of ${quota.requestLimit} requests this minute`}
+      {isOverQuota && ` · this text needs ${formatCount(textLength)}`}
+      {(isOverQuota || isLow) && ` · resets at ${resetTime}`}
+    </div>
+  );
+};
+
+export default QuotaIndicator;
@@ -1,16 +1,22 @@
-import { Mic, Square } from "lucide-react";
+import { Mic, Pause, Play, Square } from "lucide-react";
 import React from "react";
 
 interface RecordButtonProps {
   startRecording: () => Promise<void>;
   stopRecording: () => Promise<void>;
+  pauseRecording?: () => void;
+  resumeRecording?: () => void;
   isRecording: boolean;
+  isPaused?: boolean;
 }
 
 const RecordButton: React.FC<RecordButtonProps> = ({
   startRecording,
   stopRecording,
+  pauseRecording,
+  resumeRecording,
   isRecording,
+  isPaused = false,
 }) => {
   const handleClick = async () => {
     if (isRecording) {
@@ -21,7 +27,7 @@ const RecordButton: React.FC<RecordButtonProps> = ({
   };
 
   return (
-    <div className="mt-4">
+    <div className="mt-4 flex gap-2">
       <button
         onClick={handleClick}
         disabled={false}
@@ -43,6 +49,25 @@ const RecordButton: React.FC<RecordButtonProps> = ({
           </>
         )}
       </button>
+      {isRecording && pauseRecording && resumeRecording && (
+        <button
+          onClick={isPaused ? resumeRecording : pauseRecording}
+          className="mt-4 px-4 p-3 border border-gray-300 hover:bg-gray-100 text-gray-700 font-semibold rounded-lg transition flex items-center justify-center"
+          aria-label={isPaused ? "Resume Recording" : "Pause Recording"}
+        >
+          {isPaused ? (
+            <>
+              <Play className="mr-2" size={18} />
+              Resume
+            </>
+          ) : (
+            <>
+              <Pause className="mr-2" size={18} />
+              Pause
+            </>
+          )}
+        </button>
+      )}
     </div>
   );
 };
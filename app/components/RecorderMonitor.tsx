@@ -0,0 +1,103 @@
+import { TriangleAlert } from "lucide-react";
+import React from "react";
+import { InputLevel } from "../libs/inputMeter";
+
+interface RecorderMonitorProps {
+  isPaused: boolean;
+  elapsedMs: number;
+  level: InputLevel;
+  waveform: number[];
+}
+
+const WAVEFORM_HEIGHT = 48;
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, "0")}:${seconds
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+// Maps a linear level onto a 60 dB scale so quiet speech still registers
+const toMeterScale = (value: number) =>
+  value > 0 ? Math.max(0, 1 + Math.log10(value) / 3) : 0;
+
+const RecorderMonitor: React.FC<RecorderMonitorProps> = ({
+  isPaused,
+  elapsedMs,
+  level,
+  waveform,
+}) => {
+  const meterPercent = toMeterScale(level.rms) * 100;
+
+  return (
+    <div className="mt-4 flex flex-col gap-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 font-mono text-gray-800">
+          <span
+            className={`w-2 h-2 rounded-full ${
+              isPaused ? "bg-gray-400" : "bg-red-600 animate-pulse"
+            }`}
+          />
+          {formatElapsed(elapsedMs)}
+          {isPaused && <span className="font-sans text-gray-500">Paused</span>}
+        </span>
+        {level.isClipping && (
+          <span className="flex items-center gap-1 text-red-600">
+            <TriangleAlert size={14} />
+            Input is clipping, move back or lower the gain
+          </span>
+        )}
+      </div>
+
+      <div
+        className="h-2 bg-gray-200 rounded-full overflow-hidden"
+        role="meter"
+        aria-label="Input level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(meterPercent)}
+      >
+        <div
+          className={`h-full transition-[width] duration-75 ${
+            level.isClipping
+              ? "bg-red-600"
+              : meterPercent > 85
+              ? "bg-amber-500"
+              : "bg-green-500"
+          }`}
+          style={{ width: `${meterPercent}%` }}
+        />
+      </div>
+
+      <svg
+        className="w-full bg-white rounded-md border border-gray-200"
+        height={WAVEFORM_HEIGHT}
+        viewBox={`0 0 ${Math.max(waveform.length, 1)} ${WAVEFORM_HEIGHT}`}
+        preserveAspectRatio="none"
+        aria-hidden="true"
+      >
+        {waveform.map((peak, index) => {
+          const height = Math.max(
+            1,
+            toMeterScale(peak) * (WAVEFORM_HEIGHT - 2)
+          );
+          return (
+            <rect
+              key={index}
+              x={index + 0.1}
+              y={(WAVEFORM_HEIGHT - height) / 2}
+              width={0.8}
+              height={height}
+              className={peak >= 0.99 ? "fill-red-500" : "fill-gray-500"}
+            />
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default RecorderMonitor;
@@ -0,0 +1,168 @@
+import { ChevronDown, Settings } from "lucide-react";
+import React, { useState } from "react";
+import {
+  LOUDNESS_TARGETS,
+  RECORDER_BITRATES,
+  RECORDER_CHANNEL_COUNTS,
+  RECORDER_SAMPLE_RATES,
+} from "../constants";
+import { RecorderSettings } from "../libs/indexedDBHelpers";
+import CustomDropdown from "./CustomDropdown";
+
+interface RecorderSettingsPanelProps {
+  settings: RecorderSettings;
+  updateSettings: (updates: Partial<RecorderSettings>) => void;
+  devices: Record<string, string>;
+  mimeTypes: Record<string, string>;
+  refreshDevices: () => Promise<void>;
+  isRecording: boolean;
+}
+
+const PROCESSING_OPTIONS: {
+  key: "echoCancellation" | "noiseSuppression" | "autoGainControl";
+  label: string;
+}[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Automatic gain control" },
+];
+
+const RecorderSettingsPanel: React.FC<RecorderSettingsPanelProps> = ({
+  settings,
+  updateSettings,
+  devices,
+  mimeTypes,
+  refreshDevices,
+  isRecording,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggleOpen = () => {
+    if (!isOpen) refreshDevices();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="mt-4">
+      <button
+        onClick={toggleOpen}
+        className="flex items-center gap-2 text-sm text-gray-700 hover:text-black"
+        aria-expanded={isOpen}
+      >
+        <Settings size={16} />
+        Recording settings
+        <ChevronDown
+          size={16}
+          className={`transition-transform ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-4">
+          {isRecording && (
+            <p className="text-xs text-gray-500">
+              Changes apply to the next recording.
+            </p>
+          )}
+
+          <div className="flex flex-col">
+            <span className="block text-gray-700">Microphone</span>
+            <CustomDropdown
+              options={devices}
+              value={devices[settings.deviceId] ? settings.deviceId : ""}
+              onChange={(deviceId) => updateSettings({ deviceId })}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            {PROCESSING_OPTIONS.map(({ key, label }) => (
+              <label
+                key={key}
+                className="flex items-center gap-2 text-gray-700 cursor-pointer select-none"
+              >
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 accent-black"
+                  checked={settings[key]}
+                  onChange={(e) => updateSettings({ [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-black"
+              checked={settings.autoTrimSilence}
+              onChange={(e) =>
+                updateSettings({ autoTrimSilence: e.target.checked })
+              }
+            />
+            Save a copy with leading and trailing silence trimmed
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="flex flex-col">
+              <span className="block text-gray-700">Sample rate</span>
+              <CustomDropdown
+                options={RECORDER_SAMPLE_RATES}
+                value={settings.sampleRate.toString()}
+                onChange={(value) =>
+                  updateSettings({ sampleRate: Number(value) })
+                }
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <span className="block text-gray-700">Channels</span>
+              <CustomDropdown
+                options={RECORDER_CHANNEL_COUNTS}
+                value={settings.channelCount.toString()}
+                onChange={(value) =>
+                  updateSettings({ channelCount: Number(value) })
+                }
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <span className="block text-gray-700">Format</span>
+              <CustomDropdown
+                options={mimeTypes}
+                value={mimeTypes[settings.mimeType] ? settings.mimeType : ""}
+                onChange={(mimeType) => updateSettings({ mimeType })}
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <span className="block text-gray-700">Bitrate</span>
+              <CustomDropdown
+                options={RECORDER_BITRATES}
+                value={settings.audioBitsPerSecond.toString()}
+                onChange={(value) =>
+                  updateSettings({ audioBitsPerSecond: Number(value) })
+                }
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <span className="block text-gray-700">
+                Save a normalized copy
+              </span>
+              <CustomDropdown
+                options={LOUDNESS_TARGETS}
+                value={settings.normalizeLufs.toString()}
+                onChange={(value) =>
+                  updateSettings({ normalizeLufs: Number(value) })
+                }
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecorderSettingsPanel;
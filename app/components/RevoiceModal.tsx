@@ -0,0 +1,123 @@
+import React from "react";
+import { RecordingItem, TTSHistoryItem } from "../libs/indexedDBHelpers";
+import { TTSProviderInfo } from "../services/tts/types";
+import { getVoicesForLanguage } from "../services/tts/voices";
+import CustomAudioPlayer from "./CustomAudioPlayer";
+import CustomDropdown from "./CustomDropdown";
+import GenerateButton from "./GenerateButton";
+import Modal from "./Modal";
+
+interface RevoiceModalProps {
+  recording: RecordingItem | null;
+  transcript: string;
+  setTranscript: (transcript: string) => void;
+  language: string;
+  providers: TTSProviderInfo[];
+  provider: string;
+  setProvider: (provider: string) => void;
+  voice: string;
+  setVoice: (voice: string) => void;
+  isTranscribing: boolean;
+  isSynthesizing: boolean;
+  result: TTSHistoryItem | null;
+  synthesize: () => Promise<void>;
+  onClose: () => void;
+}
+
+const RevoiceModal: React.FC<RevoiceModalProps> = ({
+  recording,
+  transcript,
+  setTranscript,
+  language,
+  providers,
+  provider,
+  setProvider,
+  voice,
+  setVoice,
+  isTranscribing,
+  isSynthesizing,
+  result,
+  synthesize,
+  onClose,
+}) => {
+  const activeProvider = providers.find((item) => item.id === provider);
+  const voices = activeProvider
+    ? getVoicesForLanguage(activeProvider, language)
+    : {};
+
+  const content = (
+    <div className="flex flex-col gap-4 sm:w-[36rem]">
+      <div className="flex flex-col gap-1">
+        <label htmlFor="revoiceTranscript" className="text-gray-700">
+          Transcript
+        </label>
+        {isTranscribing ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="loader"></div>
+          </div>
+        ) : (
+          <textarea
+            id="revoiceTranscript"
+            className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
+            value={transcript}
+            onChange={(e) => setTranscript(e.target.value)}
+            placeholder="Transcription failed; type what should be spoken"
+            disabled={isSynthesizing}
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="flex flex-col">
+          <span className="text-gray-700">Provider</span>
+          <CustomDropdown
+            options={Object.fromEntries(
+              providers.map((item) => [item.id, item.name])
+            )}
+            value={provider}
+            onChange={setProvider}
+            disabled={isSynthesizing || providers.length === 0}
+          />
+        </div>
+        <div className="flex flex-col">
+          <span className="text-gray-700">Voice</span>
+          <CustomDropdown
+            options={voices}
+            value={voice}
+            onChange={setVoice}
+            disabled={isSynthesizing || !activeProvider}
+          />
+        </div>
+      </div>
+
+      <GenerateButton
+        generateSpeech={synthesize}
+        isLoading={isTranscribing || isSynthesizing}
+      />
+
+      {result && (
+        <div className="flex flex-col gap-1">
+          <span className="text-sm text-gray-600">
+            Saved to the Text to Speech history
+          </span>
+          <CustomAudioPlayer
+            audioUrl={result.audioUrl}
+            title="revoiced"
+            timings={result.timings}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={recording !== null}
+      onClose={onClose}
+      title="Re-voice recording"
+      content={content}
+    />
+  );
+};
+
+export default RevoiceModal;
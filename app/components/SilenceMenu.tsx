@@ -0,0 +1,139 @@
+import { AudioWaveform, Loader2 } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { SilenceTools } from "../hooks/useSilenceTools";
+import {
+  DEFAULT_SILENCE_OPTIONS,
+  SilenceOptions,
+} from "../libs/silenceDetection";
+
+interface SilenceMenuProps {
+  id: string;
+  tools: SilenceTools;
+}
+
+// Shared by all items so the threshold is set once per session
+let cachedOptions: SilenceOptions = DEFAULT_SILENCE_OPTIONS;
+
+const SilenceMenu: React.FC<SilenceMenuProps> = ({ id, tools }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<SilenceOptions>(cachedOptions);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const analysis = tools.analyses[id];
+  const isBusy = tools.busyId === id;
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const updateOption = (key: keyof SilenceOptions, value: string) => {
+    const number = parseFloat(value);
+    if (!isFinite(number)) return;
+    if (key === "thresholdDb" ? number >= 0 : number < 0) return;
+
+    const next = { ...options, [key]: number };
+    cachedOptions = next;
+    setOptions(next);
+  };
+
+  const silentSeconds = analysis?.regions.reduce(
+    (sum, { start, end }) => sum + end - start,
+    0
+  );
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-gray-600 hover:text-black"
+        title="Silence"
+      >
+        {isBusy ? (
+          <Loader2 width={16} height={16} className="animate-spin" />
+        ) : (
+          <AudioWaveform width={16} height={16} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-64 p-3 bg-white border border-gray-200 rounded-lg shadow-lg flex flex-col gap-2 text-sm">
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Threshold (dB)
+            <input
+              type="number"
+              min="-90"
+              max="-1"
+              value={options.thresholdDb}
+              onChange={(e) => updateOption("thresholdDb", e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Min silence (s)
+            <input
+              type="number"
+              min="0.1"
+              max="10"
+              step="0.1"
+              value={options.minDuration}
+              onChange={(e) => updateOption("minDuration", e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Keep per pause (s)
+            <input
+              type="number"
+              min="0"
+              max="5"
+              step="0.1"
+              value={options.keepDuration}
+              onChange={(e) => updateOption("keepDuration", e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+
+          {analysis && (
+            <p className="text-xs text-gray-500">
+              {analysis.regions.length} silent region(s),{" "}
+              {silentSeconds?.toFixed(1)}s in total
+            </p>
+          )}
+
+          <button
+            onClick={() => tools.detect(id, options)}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Detect silence
+          </button>
+          <button
+            onClick={() => tools.apply(id, "trimEnds", options)}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md bg-black text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Trim leading/trailing silence
+          </button>
+          <button
+            onClick={() => tools.apply(id, "shortenPauses", options)}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md bg-black text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Shorten long pauses
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SilenceMenu;
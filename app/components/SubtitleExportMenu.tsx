@@ -0,0 +1,124 @@
+import { Subtitles } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_SUBTITLE_OPTIONS,
+  SUBTITLE_MIME_TYPES,
+  SubtitleFormat,
+  SubtitleOptions,
+  buildSubtitleCues,
+  formatSubtitles,
+} from "../libs/subtitles";
+import { WordTimings } from "../libs/wordTimings";
+
+interface SubtitleExportMenuProps {
+  timings: WordTimings;
+  title: string;
+  disabled?: boolean;
+}
+
+// Shared by all players so the limits are set once per session
+let cachedOptions: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS;
+
+const SubtitleExportMenu: React.FC<SubtitleExportMenuProps> = ({
+  timings,
+  title,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<SubtitleOptions>(cachedOptions);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const updateOption = (key: keyof SubtitleOptions, value: string) => {
+    const number = parseFloat(value);
+    if (!isFinite(number) || number <= 0) return;
+
+    const next = { ...options, [key]: number };
+    cachedOptions = next;
+    setOptions(next);
+  };
+
+  const handleExport = (format: SubtitleFormat) => {
+    const content = formatSubtitles(
+      buildSubtitleCues(timings, options),
+      format
+    );
+    const url = URL.createObjectURL(
+      new Blob([content], { type: SUBTITLE_MIME_TYPES[format] })
+    );
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${title}-${Date.now()}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-2 text-gray-600 hover:text-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Export Subtitles"
+      >
+        <Subtitles size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-56 p-3 bg-white border border-gray-200 rounded-lg shadow-lg flex flex-col gap-2 text-sm">
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Max line length
+            <input
+              type="number"
+              min="10"
+              max="120"
+              value={options.maxLineLength}
+              onChange={(e) => updateOption("maxLineLength", e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Max cue length (s)
+            <input
+              type="number"
+              min="1"
+              max="30"
+              step="0.5"
+              value={options.maxCueDuration}
+              onChange={(e) => updateOption("maxCueDuration", e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <div className="flex gap-2 mt-1">
+            {(["srt", "vtt"] as SubtitleFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="flex-1 px-2 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+              >
+                .{format}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleExportMenu;
@@ -1,5 +1,9 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import useDebounce from "../hooks/useDebounce";
+import { parseSpeechMarkup } from "../libs/speechMarkup";
+import { hasSpeechRules } from "../services/tts/textNormalizer";
+import CustomDropdown from "./CustomDropdown";
+import MarkupEditor from "./MarkupEditor";
 
 interface TextSettingsProps {
   text: string;
@@ -9,15 +13,26 @@ interface TextSettingsProps {
   languages: { code: string; name: string }[];
   isOptimizeWithAI: boolean;
   setIsOptimizeWithAI: (isOptimizeWithAI: boolean) => void;
+  isMarkup: boolean;
+  setIsMarkup: (isMarkup: boolean) => void;
+  voices: Record<string, string>;
   isLoading: boolean;
+  showTextInput?: boolean;
 }
 
 const TextSettings: React.FC<TextSettingsProps> = ({
   text,
   setText,
+  language,
+  setLanguage,
+  languages,
   isOptimizeWithAI,
   setIsOptimizeWithAI,
+  isMarkup,
+  setIsMarkup,
+  voices,
   isLoading,
+  showTextInput = true,
 }) => {
   const [localText, setLocalText] = useState(text);
   const [isOptimizeAIState, setIsOptimizeAIState] = useState(isOptimizeWithAI);
@@ -48,17 +63,87 @@ const TextSettings: React.FC<TextSettingsProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOptimizeWithAI]);
 
+  const markupErrors = useMemo(
+    () =>
+      isMarkup
+        ? parseSpeechMarkup(localText, { voices: Object.keys(voices) }).errors
+        : [],
+    [isMarkup, localText, voices]
+  );
+
+  const languageOptions = useMemo(
+    () => Object.fromEntries(languages.map(({ code, name }) => [code, name])),
+    [languages]
+  );
+
   return (
-    <div style={{ marginBottom: "-12px" }}>
-      <span className="block text-gray-700">Enter Text:</span>
-      <textarea
-        id="textInput"
-        className="w-full p-3 text-gray-700 rounded-md focus:ring-blue-500 transition resize-none h-24 border border-gray-300 focus:outline-none focus:border-gray-700"
-        placeholder="Type your text here..."
-        value={localText}
-        onChange={(e) => setLocalText(e.target.value)}
-        disabled={isLoading}
-      />
+    <div className="flex flex-col gap-4" style={{ marginBottom: "-12px" }}>
+      <div className="flex flex-col">
+        <span className="block text-gray-700">Language</span>
+        <CustomDropdown
+          options={languageOptions}
+          value={language}
+          onChange={setLanguage}
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="flex items-center gap-2 text-gray-700 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-black"
+            checked={isOptimizeAIState}
+            onChange={(e) => setIsOptimizeAIState(e.target.checked)}
+            disabled={isLoading}
+          />
+          {hasSpeechRules(language)
+            ? "Optimize text for speech (numbers, dates, abbreviations, URLs)"
+            : "Optimize text for speech (punctuation only)"}
+        </label>
+        {!hasSpeechRules(language) && (
+          <p className="text-xs text-gray-500">
+            Numbers, dates and abbreviations are only spelled out for English
+            and Vietnamese.
+          </p>
+        )}
+      </div>
+
+      {showTextInput && (
+        <label className="flex items-center gap-2 text-gray-700 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-black"
+            checked={isMarkup}
+            onChange={(e) => setIsMarkup(e.target.checked)}
+            disabled={isLoading}
+          />
+          Use markup for pauses, voice switches and emphasis
+        </label>
+      )}
+
+      {showTextInput && (
+        <div>
+          <span className="block text-gray-700">Enter Text:</span>
+          {isMarkup ? (
+            <MarkupEditor
+              value={localText}
+              onChange={setLocalText}
+              errors={markupErrors}
+              disabled={isLoading}
+            />
+          ) : (
+            <textarea
+              id="textInput"
+              className="w-full p-3 text-gray-700 rounded-md focus:ring-blue-500 transition resize-none h-24 border border-gray-300 focus:outline-none focus:border-gray-700"
+              placeholder="Type your text here..."
+              value={localText}
+              onChange={(e) => setLocalText(e.target.value)}
+              disabled={isLoading}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 };
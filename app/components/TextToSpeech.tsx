@@ -1,37 +1,120 @@
-import { OPENAI_VOICES } from "../constants";
+import { useState } from "react";
+import useBatchSynthesis from "../hooks/useBatchSynthesis";
+import useDialogueScript from "../hooks/useDialogueScript";
 import { useBreakpoints } from "../hooks/useBreakpoints";
+import useAudioProcessing from "../hooks/useAudioProcessing";
+import useSilenceTools from "../hooks/useSilenceTools";
 import useTextToSpeech from "../hooks/useTextToSpeech";
+import useTranslateAndSpeak from "../hooks/useTranslateAndSpeak";
 import AudioPlayer from "./AudioPlayer";
+import AudioSettings from "./AudioSettings";
+import AudioEditorModal from "./AudioEditorModal";
 import AudiosHistory from "./AudiosHistory";
+import BatchPanel from "./BatchPanel";
+import DialogueEditor from "./DialogueEditor";
 import GenerateButton from "./GenerateButton";
 import CustomDropdown from "./CustomDropdown";
+import QuotaIndicator from "./QuotaIndicator";
 import TextSettings from "./TextSettings";
+import TranslatePanel from "./TranslatePanel";
+
+enum Mode {
+  SINGLE = "single",
+  BATCH = "batch",
+  SCRIPT = "script",
+  TRANSLATE = "translate",
+}
 
 const TextToSpeech = () => {
   const { isMobile } = useBreakpoints();
+  const [mode, setMode] = useState<Mode>(Mode.SINGLE);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   const {
     // State variables
-    audioUrl,
+    currentItem,
     history,
     isLoading,
+    isStreaming,
     text,
     language,
     languages,
     voice,
+    voices,
+    provider,
+    providers,
+    speed,
+    model,
+    models,
+    format,
+    formats,
+    normalizeLufs,
     isOptimizeWithAI,
+    isMarkup,
+    quota,
+    refreshQuota,
 
     // Setter functions
     deleteHistoryItem,
+    saveHistoryItem,
+    saveEditedVersions,
     setLanguage,
     setText,
     setIsOptimizeWithAI,
+    setIsMarkup,
     setVoice,
+    setProvider,
+    setSpeed,
+    setModel,
+    setFormat,
+    setNormalizeLufs,
 
     // Methods
     generateSpeech,
+    cancelGeneration,
   } = useTextToSpeech();
 
+  const settings = {
+    language,
+    isOptimizeWithAI,
+    voice,
+    provider,
+    speed,
+    model,
+    format,
+  };
+  const silenceTools = useSilenceTools(history, saveEditedVersions);
+  const processingTools = useAudioProcessing(history, saveEditedVersions);
+  const activeProvider = providers.find((item) => item.id === provider);
+  const providerVoices = activeProvider?.voices || voices;
+  const batch = useBatchSynthesis(settings, saveHistoryItem, refreshQuota);
+  const dialogue = useDialogueScript(
+    settings,
+    providerVoices,
+    saveHistoryItem,
+    refreshQuota
+  );
+  const translation = useTranslateAndSpeak(
+    settings,
+    activeProvider,
+    saveHistoryItem,
+    refreshQuota
+  );
+  const isBusy =
+    isLoading ||
+    isStreaming ||
+    batch.isRunning ||
+    dialogue.isGenerating ||
+    translation.isRunning;
+
+  const openScript = (id: string) => {
+    const item = history.find((entry) => entry.id === id);
+    if (!item?.script) return;
+
+    dialogue.openScript(item.script);
+    setMode(Mode.SCRIPT);
+  };
+
   return (
     <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-lg">
       <div className="max-w-5xl mx-auto p-4">
@@ -42,6 +125,28 @@ const TextToSpeech = () => {
           >
             {/* Left Panel (TTS) */}
             <div id="tts-panel" className="md:w-2/3 flex flex-col gap-4">
+              <div className="flex gap-2">
+                {[
+                  [Mode.SINGLE, "Single"],
+                  [Mode.BATCH, "Batch"],
+                  [Mode.SCRIPT, "Script"],
+                  [Mode.TRANSLATE, "Translate"],
+                ].map(([value, label]) => (
+                  <button
+                    key={value}
+                    className={`flex-1 py-1.5 text-sm text-center rounded-md ${
+                      mode === value
+                        ? "bg-black text-white"
+                        : "bg-gray-200 text-gray-700"
+                    }`}
+                    onClick={() => setMode(value as Mode)}
+                    disabled={isBusy}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
               <TextSettings
                 text={text}
                 setText={setText}
@@ -50,32 +155,111 @@ const TextToSpeech = () => {
                 languages={languages}
                 isOptimizeWithAI={isOptimizeWithAI}
                 setIsOptimizeWithAI={setIsOptimizeWithAI}
-                isLoading={isLoading}
+                isMarkup={isMarkup}
+                setIsMarkup={setIsMarkup}
+                voices={providerVoices}
+                isLoading={isBusy}
+                showTextInput={mode === Mode.SINGLE || mode === Mode.TRANSLATE}
               />
 
-              <div className="flex flex-col">
-                <span className="block text-gray-700"> Select Voice</span>
-                <CustomDropdown
-                  options={OPENAI_VOICES}
-                  value={voice}
-                  onChange={setVoice}
-                />
-              </div>
+              {providers.length > 1 && (
+                <div className="flex flex-col">
+                  <span className="block text-gray-700">Select Provider</span>
+                  <CustomDropdown
+                    options={Object.fromEntries(
+                      providers.map((item) => [item.id, item.name])
+                    )}
+                    value={provider}
+                    onChange={setProvider}
+                    disabled={isBusy}
+                  />
+                </div>
+              )}
+
+              {mode !== Mode.SCRIPT && (
+                <div className="flex flex-col">
+                  <span className="block text-gray-700"> Select Voice</span>
+                  <CustomDropdown
+                    options={voices}
+                    value={voice}
+                    onChange={setVoice}
+                  />
+                </div>
+              )}
 
-              <GenerateButton
-                generateSpeech={() =>
-                  generateSpeech(text, isOptimizeWithAI, voice)
-                }
-                isLoading={isLoading}
+              <AudioSettings
+                speed={speed}
+                setSpeed={setSpeed}
+                model={model}
+                setModel={setModel}
+                models={models}
+                format={format}
+                setFormat={setFormat}
+                formats={formats}
+                normalizeLufs={normalizeLufs}
+                setNormalizeLufs={setNormalizeLufs}
+                isLoading={isBusy}
               />
-              <AudioPlayer audioUrl={audioUrl} isLoading={isLoading} />
+
+              {mode === Mode.SINGLE ? (
+                <>
+                  <GenerateButton
+                    generateSpeech={() =>
+                      generateSpeech(text, isOptimizeWithAI, voice)
+                    }
+                    cancelGeneration={cancelGeneration}
+                    isLoading={isLoading || isStreaming}
+                  />
+                  <QuotaIndicator quota={quota} textLength={text.length} />
+                  <AudioPlayer
+                    audio={currentItem}
+                    isLoading={isLoading}
+                    isStreaming={isStreaming}
+                  />
+                </>
+              ) : mode === Mode.BATCH ? (
+                <>
+                  <BatchPanel {...batch} />
+                  <QuotaIndicator quota={quota} textLength={0} />
+                </>
+              ) : mode === Mode.TRANSLATE ? (
+                <>
+                  <TranslatePanel
+                    {...translation}
+                    text={text}
+                    sourceLanguage={language}
+                    languages={languages}
+                  />
+                  <QuotaIndicator quota={quota} textLength={text.length} />
+                </>
+              ) : (
+                <>
+                  <DialogueEditor {...dialogue} voices={providerVoices} />
+                  <QuotaIndicator
+                    quota={quota}
+                    textLength={dialogue.script.length}
+                  />
+                </>
+              )}
             </div>
 
             {/* Right Panel: History of Audios */}
-            <AudiosHistory audios={history} deleteItem={deleteHistoryItem} />
+            <AudiosHistory
+              audios={history}
+              deleteItem={deleteHistoryItem}
+              openScript={openScript}
+              edit={setEditingId}
+              silenceTools={silenceTools}
+              processingTools={processingTools}
+            />
           </div>
         </div>
       </div>
+      <AudioEditorModal
+        item={history.find((item) => item.id === editingId) ?? null}
+        onSave={saveEditedVersions}
+        onClose={() => setEditingId(null)}
+      />
     </div>
   );
 };
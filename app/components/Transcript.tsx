@@ -0,0 +1,77 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { WordTimings, findWordIndex } from "../libs/wordTimings";
+
+interface TranscriptProps {
+  timings: WordTimings;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const Transcript: React.FC<TranscriptProps> = ({
+  timings,
+  currentTime,
+  onSeek,
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const activeWordRef = useRef<HTMLSpanElement | null>(null);
+  const { text, words } = timings;
+  const activeIndex = findWordIndex(words, currentTime);
+  const activeSentence = words[activeIndex]?.sentence ?? -1;
+
+  // Text between words (spaces, speaker labels) is rendered as-is
+  const gaps = useMemo(
+    () =>
+      words.map((word, index) =>
+        text.slice(index > 0 ? words[index - 1].charEnd : 0, word.charStart)
+      ),
+    [text, words]
+  );
+
+  // Keep the active word in view without scrolling the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const word = activeWordRef.current;
+    if (!container || !word) return;
+
+    const top = word.offsetTop;
+    const bottom = top + word.offsetHeight;
+    if (
+      top < container.scrollTop ||
+      bottom > container.scrollTop + container.clientHeight
+    ) {
+      container.scrollTo({
+        top: top - container.clientHeight / 3,
+        behavior: "smooth",
+      });
+    }
+  }, [activeIndex]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative max-h-40 overflow-y-auto whitespace-pre-wrap text-sm leading-relaxed text-gray-700"
+    >
+      {words.map((word, index) => (
+        <React.Fragment key={index}>
+          {gaps[index]}
+          <span
+            ref={index === activeIndex ? activeWordRef : undefined}
+            onClick={() => onSeek(word.start)}
+            className={`cursor-pointer rounded transition-colors ${
+              index === activeIndex
+                ? "bg-blue-500 text-white"
+                : word.sentence === activeSentence
+                ? "bg-blue-50"
+                : "hover:bg-gray-100"
+            }`}
+          >
+            {text.slice(word.charStart, word.charEnd)}
+          </span>
+        </React.Fragment>
+      ))}
+      {text.slice(words[words.length - 1]?.charEnd ?? 0)}
+    </div>
+  );
+};
+
+export default Transcript;
@@ -0,0 +1,139 @@
+import React from "react";
+import { AUDIO_FORMATS, TRANSLATION_CONFIG } from "../constants";
+import { TranslationResult } from "../hooks/useTranslateAndSpeak";
+import { LanguageOption } from "../libs/indexedDBHelpers";
+import CustomAudioPlayer from "./CustomAudioPlayer";
+import GenerateButton from "./GenerateButton";
+
+interface TranslatePanelProps {
+  text: string;
+  sourceLanguage: string;
+  languages: LanguageOption[];
+  targetLanguages: string[];
+  setTargetLanguages: (languages: string[]) => void;
+  sourceText: string;
+  results: TranslationResult[];
+  isRunning: boolean;
+  translateAndSpeak: (text: string) => Promise<void>;
+  cancelTranslation: () => void;
+}
+
+const STATUS_LABELS: Record<TranslationResult["status"], string> = {
+  queued: "Queued",
+  running: "Speaking...",
+  done: "Done",
+  error: "Failed",
+};
+
+const TranslatePanel: React.FC<TranslatePanelProps> = ({
+  text,
+  sourceLanguage,
+  languages,
+  targetLanguages,
+  setTargetLanguages,
+  sourceText,
+  results,
+  isRunning,
+  translateAndSpeak,
+  cancelTranslation,
+}) => {
+  const languageNames = Object.fromEntries(
+    languages.map(({ code, name }) => [code, name])
+  );
+
+  const toggleLanguage = (code: string) => {
+    setTargetLanguages(
+      targetLanguages.includes(code)
+        ? targetLanguages.filter((language) => language !== code)
+        : [...targetLanguages, code]
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-1">
+        <span className="text-gray-700">
+          Translate to ({targetLanguages.length}/
+          {TRANSLATION_CONFIG.MAX_TARGETS})
+        </span>
+        <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto p-2 border border-gray-300 rounded-lg">
+          {languages
+            .filter(({ code }) => code !== sourceLanguage)
+            .map(({ code, name }) => {
+              const isSelected = targetLanguages.includes(code);
+              return (
+                <button
+                  key={code}
+                  onClick={() => toggleLanguage(code)}
+                  disabled={
+                    isRunning ||
+                    (!isSelected &&
+                      targetLanguages.length >= TRANSLATION_CONFIG.MAX_TARGETS)
+                  }
+                  className={`px-2 py-1 text-xs rounded-md transition-colors disabled:opacity-50 ${
+                    isSelected
+                      ? "bg-black text-white"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  {name}
+                </button>
+              );
+            })}
+        </div>
+      </div>
+
+      <GenerateButton
+        generateSpeech={() => translateAndSpeak(text)}
+        cancelGeneration={cancelTranslation}
+        isLoading={isRunning}
+      />
+
+      {isRunning && results.length === 0 && (
+        <div className="flex justify-center mt-2 h-10">
+          <div className="loader"></div>
+        </div>
+      )}
+
+      {results.map((result) => (
+        <div
+          key={result.language}
+          className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-gray-50 rounded-lg"
+        >
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-500">
+              {languageNames[sourceLanguage] || sourceLanguage}
+            </span>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">
+              {sourceText}
+            </p>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-500">
+              {languageNames[result.language] || result.language} ·{" "}
+              {result.error || STATUS_LABELS[result.status]}
+            </span>
+            <p className="text-sm text-gray-900 whitespace-pre-wrap">
+              {result.text}
+            </p>
+          </div>
+          {result.item && (
+            <div className="sm:col-span-2">
+              <CustomAudioPlayer
+                audioUrl={result.item.audioUrl}
+                downloadUrl={result.item.downloadUrl}
+                fileExtension={
+                  AUDIO_FORMATS[result.item.format || "mp3"].extension
+                }
+                title={result.language}
+                timings={result.item.timings}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranslatePanel;
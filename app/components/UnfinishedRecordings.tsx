@@ -0,0 +1,76 @@
+import { History, Trash2 } from "lucide-react";
+import React, { useState } from "react";
+import { UnfinishedRecording } from "../hooks/useAudioRecorder";
+
+interface UnfinishedRecordingsProps {
+  recordings: UnfinishedRecording[];
+  recoverRecording: (sessionId: string) => Promise<void>;
+  discardRecording: (sessionId: string) => Promise<void>;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const UnfinishedRecordings: React.FC<UnfinishedRecordingsProps> = ({
+  recordings,
+  recoverRecording,
+  discardRecording,
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (recordings.length === 0) return null;
+
+  const handle = async (
+    sessionId: string,
+    action: (sessionId: string) => Promise<void>
+  ) => {
+    setBusyId(sessionId);
+    await action(sessionId);
+    setBusyId(null);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 p-4 rounded-lg mb-4">
+      <h3 className="font-semibold text-gray-800">Unfinished recordings</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        These recordings were interrupted before they were saved.
+      </p>
+      <ul className="flex flex-col gap-2">
+        {recordings.map(({ sessionId, startedAt, chunkCount, size }) => (
+          <li
+            key={sessionId}
+            className="flex items-center justify-between gap-2 text-sm"
+          >
+            <span className="text-gray-700">
+              {new Date(startedAt).toLocaleString()} · about {chunkCount}s ·{" "}
+              {formatSize(size)}
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => handle(sessionId, recoverRecording)}
+                disabled={busyId !== null}
+                className="flex items-center gap-1 px-3 py-1 bg-black hover:bg-gray-800 text-white rounded-md disabled:opacity-50"
+              >
+                <History size={14} />
+                Recover
+              </button>
+              <button
+                onClick={() => handle(sessionId, discardRecording)}
+                disabled={busyId !== null}
+                className="flex items-center gap-1 px-3 py-1 border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+                aria-label="Discard unfinished recording"
+              >
+                <Trash2 size={14} />
+                Discard
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UnfinishedRecordings;
@@ -5,6 +5,152 @@ export const CACHE_CONFIG = {
   TTL: 10 * 60 * 1000, // 10 minutes in milliseconds
 };
 
+// Server-side cache of synthesized audio, overridable through the environment
+export const SYNTHESIS_CACHE_CONFIG = {
+  MAX_ENTRIES: Number(process.env.TTS_CACHE_MAX_ENTRIES) || 200,
+  MAX_BYTES: Number(process.env.TTS_CACHE_MAX_BYTES) || 200 * 1024 * 1024,
+  TTL: Number(process.env.TTS_CACHE_TTL_MS) || 24 * 60 * 60 * 1000, // 1 day
+};
+
+export const TTS_CONFIG = {
+  MAX_CHUNK_LENGTH: 4096, // OpenAI speech input limit in characters
+  CHUNK_CONCURRENCY: 3,
+  PCM_SAMPLE_RATE: 24000, // Raw PCM is 24kHz, 16-bit signed little-endian mono
+  MIN_SPEED: 0.25,
+  MAX_SPEED: 4,
+  MAX_TEXT_LENGTH: 100000, // Characters per request, across all chunks
+  MAX_BODY_BYTES: 512 * 1024,
+  MAX_BATCH_ITEMS: 100,
+  MAX_DIALOGUE_TURNS: 200,
+  BATCH_CONCURRENCY: 2, // Items synthesized at once; each may run several chunks
+};
+
+// Timeouts and retries for calls to TTS providers
+export const UPSTREAM_RETRY_CONFIG = {
+  TIMEOUT_MS: Number(process.env.TTS_UPSTREAM_TIMEOUT_MS) || 30 * 1000,
+  RETRIES: Number(process.env.TTS_UPSTREAM_RETRIES ?? 2),
+  BASE_DELAY_MS: 500,
+  MAX_DELAY_MS: 8 * 1000,
+  MAX_RETRY_AFTER_MS: 20 * 1000, // Longer waits are passed on to the client
+};
+
+export const STT_CONFIG = {
+  MAX_FILE_BYTES: 25 * 1024 * 1024, // Whisper upload limit
+  // The file plus multipart boundaries, headers and the language field
+  MAX_BODY_BYTES: 25 * 1024 * 1024 + 64 * 1024,
+  // Transcribing a long recording takes much longer than synthesizing speech
+  TIMEOUT_MS: Number(process.env.STT_UPSTREAM_TIMEOUT_MS) || 120 * 1000,
+};
+
+export const TRANSLATION_CONFIG = {
+  MAX_TEXT_LENGTH: 10000, // Characters
+  MAX_TARGETS: 10, // Target languages per request
+  CONCURRENCY: 3,
+  OPENAI_MODEL: process.env.TRANSLATION_OPENAI_MODEL || "gpt-4o-mini",
+};
+
+// Number of reverse proxies in front of the deployment. Forwarded client
+// addresses are only trusted when this is set; 0 puts every caller in one
+// shared rate limit bucket.
+export const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+
+// Per-client limits on the TTS route, overridable through the environment.
+// A limit of 0 disables that check.
+export const RATE_LIMIT_CONFIG = {
+  REQUESTS_PER_MINUTE: Number(process.env.TTS_RATE_LIMIT_RPM ?? 10),
+  CHARACTERS_PER_MINUTE: Number(process.env.TTS_RATE_LIMIT_CPM ?? 20000),
+  DAILY_CHARACTER_QUOTA: Number(
+    process.env.TTS_DAILY_CHARACTER_QUOTA ?? 200000
+  ),
+};
+
+// Per-client limits on the speech-to-text route. Uploads are charged by size
+// in kilobytes; a limit of 0 disables that check.
+export const STT_RATE_LIMIT_CONFIG = {
+  REQUESTS_PER_MINUTE: Number(process.env.STT_RATE_LIMIT_RPM ?? 5),
+  KILOBYTES_PER_MINUTE: Number(process.env.STT_RATE_LIMIT_KBPM ?? 50 * 1024),
+  DAILY_KILOBYTE_QUOTA: Number(
+    process.env.STT_DAILY_KILOBYTE_QUOTA ?? 500 * 1024
+  ),
+};
+
+export const TTS_MODELS = {
+  standard: "Standard (faster)",
+  hd: "HD (higher quality)",
+};
+
+export type TTSModel = keyof typeof TTS_MODELS;
+
+export const AUDIO_FORMATS = {
+  mp3: { label: "MP3", mimeType: "audio/mpeg", extension: "mp3" },
+  opus: { label: "Opus", mimeType: "audio/ogg", extension: "opus" },
+  aac: { label: "AAC", mimeType: "audio/aac", extension: "aac" },
+  flac: { label: "FLAC", mimeType: "audio/flac", extension: "flac" },
+  wav: { label: "WAV", mimeType: "audio/wav", extension: "wav" },
+  pcm: { label: "PCM (raw)", mimeType: "audio/pcm", extension: "pcm" },
+};
+
+export type AudioFormat = keyof typeof AUDIO_FORMATS;
+
+// Container and codec choices offered by the recorder; the browser default
+// is used when the saved choice is not supported
+export const RECORDER_MIME_TYPES = {
+  "": "Browser default",
+  "audio/webm;codecs=opus": "WebM (Opus)",
+  "audio/ogg;codecs=opus": "Ogg (Opus)",
+  "audio/mp4": "MP4 (AAC)",
+};
+
+export const RECORDER_BITRATES = {
+  0: "Browser default",
+  64000: "64 kbps",
+  96000: "96 kbps",
+  128000: "128 kbps",
+  192000: "192 kbps",
+  256000: "256 kbps",
+};
+
+export const RECORDER_SAMPLE_RATES = {
+  0: "Device default",
+  16000: "16 kHz",
+  44100: "44.1 kHz",
+  48000: "48 kHz",
+};
+
+export const RECORDER_CHANNEL_COUNTS = {
+  1: "Mono",
+  2: "Stereo",
+};
+
+// Integrated loudness targets for normalization; 0 leaves the level alone
+export const LOUDNESS_TARGETS = {
+  0: "Off",
+  [-14]: "-14 LUFS (music streaming)",
+  [-16]: "-16 LUFS (podcasts)",
+  [-23]: "-23 LUFS (EBU R128 broadcast)",
+};
+
+// Conversion choices offered when downloading; 0 keeps the source value
+export const DOWNLOAD_SAMPLE_RATES = {
+  0: "Original",
+  16000: "16 kHz",
+  22050: "22.05 kHz",
+  44100: "44.1 kHz",
+  48000: "48 kHz",
+};
+
+export const DOWNLOAD_CHANNEL_COUNTS = {
+  0: "Original",
+  1: "Mono (mix-down)",
+  2: "Stereo",
+};
+
+export const WAV_BIT_DEPTHS = {
+  16: "16-bit",
+  24: "24-bit",
+  32: "32-bit float",
+};
+
 export const baseEndPoint = process.env.NEXT_PUBLIC_BASE_END_POINT?.replace(
   /\/$/,
   ""
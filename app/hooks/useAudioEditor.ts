@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  AudioEdit,
+  applyEdit,
+  applyEdits,
+  getTimelineDuration,
+  renderTimeline,
+} from "../libs/audioEdits";
+import { encodeWav } from "../libs/wavHelpers";
+
+export interface Selection {
+  start: number;
+  end: number;
+}
+
+interface EditHistory {
+  past: AudioEdit[][];
+  present: AudioEdit[];
+  future: AudioEdit[][];
+}
+
+interface UseAudioEditorResult {
+  isDecoding: boolean;
+  preview: AudioBuffer | null;
+  duration: number;
+  selection: Selection | null;
+  setSelection: (selection: Selection | null) => void;
+  cursor: number;
+  setCursor: (time: number) => void;
+  playhead: number | null;
+  isPlaying: boolean;
+  applyToSelection: (type: AudioEdit["type"]) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  togglePlayback: () => void;
+  // WAV files of the edited audio, split in two at `splitAt` when given
+  exportAudio: (splitAt?: number) => Promise<ArrayBuffer[]>;
+}
+
+const EMPTY_HISTORY: EditHistory = { past: [], present: [], future: [] };
+
+/**
+ * Decodes `audioBinary` and keeps a list of edits on top of it. The preview
+ * is re-rendered from the untouched source after every change.
+ */
+const useAudioEditor = (
+  audioBinary: ArrayBuffer | null
+): UseAudioEditorResult => {
+  const [source, setSource] = useState<AudioBuffer | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [preview, setPreview] = useState<AudioBuffer | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const playbackRef = useRef<AudioBufferSourceNode | null>(null);
+  const frameRef = useRef(0);
+
+  const timeline = useMemo(
+    () => (source ? applyEdits(source.duration, history.present) : null),
+    [source, history.present]
+  );
+  const duration = timeline ? getTimelineDuration(timeline) : 0;
+
+  const stopPlayback = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    if (playbackRef.current) {
+      playbackRef.current.onended = null;
+      playbackRef.current.stop();
+      playbackRef.current = null;
+    }
+    setPlayhead(null);
+  }, []);
+
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+    setSelection(null);
+    setCursor(0);
+    setSource(null);
+    setPreview(null);
+    if (!audioBinary) return;
+
+    let isCancelled = false;
+    const context = new AudioContext();
+    contextRef.current = context;
+    setIsDecoding(true);
+
+    // decodeAudioData detaches the buffer it is given
+    context
+      .decodeAudioData(audioBinary.slice(0))
+      .then((decoded) => {
+        if (!isCancelled) setSource(decoded);
+      })
+      .catch((error) => {
+        console.error("Failed to decode audio for editing:", error);
+        if (!isCancelled) toast.error("Could not open this audio for editing");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsDecoding(false);
+      });
+
+    return () => {
+      isCancelled = true;
+      stopPlayback();
+      contextRef.current = null;
+      context.close();
+    };
+  }, [audioBinary, stopPlayback]);
+
+  // Re-render the preview whenever the edits change
+  useEffect(() => {
+    if (!source || !timeline) return;
+
+    let isCancelled = false;
+    stopPlayback();
+    renderTimeline(source, timeline)
+      .then((rendered) => {
+        if (!isCancelled) setPreview(rendered);
+      })
+      .catch((error) => {
+        console.error("Failed to render edits:", error);
+        toast.error("Failed to apply edit");
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [source, timeline, stopPlayback]);
+
+  const pushEdit = useCallback((edit: AudioEdit) => {
+    setHistory(({ past, present }) => ({
+      past: [...past, present],
+      present: [...present, edit],
+      future: [],
+    }));
+  }, []);
+
+  const applyToSelection = useCallback(
+    (type: AudioEdit["type"]) => {
+      if (!selection || !timeline) {
+        toast.error("Select a range on the waveform first");
+        return;
+      }
+
+      const edit = { type, ...selection };
+      if (applyEdit(timeline, edit) === timeline) return;
+      pushEdit(edit);
+      setSelection(null);
+      setCursor(type === "cut" ? selection.start : 0);
+    },
+    [selection, timeline, pushEdit]
+  );
+
+  const undo = useCallback(() => {
+    setHistory(({ past, present, future }) =>
+      past.length === 0
+        ? { past, present, future }
+        : {
+            past: past.slice(0, -1),
+            present: past[past.length - 1],
+            future: [present, ...future],
+          }
+    );
+    setSelection(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(({ past, present, future }) =>
+      future.length === 0
+        ? { past, present, future }
+        : {
+            past: [...past, present],
+            present: future[0],
+            future: future.slice(1),
+          }
+    );
+    setSelection(null);
+  }, []);
+
+  // Plays the selection, or from the cursor to the end
+  const togglePlayback = useCallback(() => {
+    const context = contextRef.current;
+    if (playbackRef.current) {
+      stopPlayback();
+      return;
+    }
+    if (!context || !preview) return;
+
+    const from = selection ? selection.start : cursor;
+    const to = selection ? selection.end : preview.duration;
+    const node = context.createBufferSource();
+    node.buffer = preview;
+    node.connect(context.destination);
+    node.onended = stopPlayback;
+    context.resume();
+    node.start(0, from, Math.max(0, to - from));
+    playbackRef.current = node;
+
+    const startedAt = context.currentTime;
+    const tick = () => {
+      setPlayhead(from + context.currentTime - startedAt);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  }, [preview, selection, cursor, stopPlayback]);
+
+  const exportAudio = useCallback(
+    async (splitAt?: number) => {
+      if (!source || !timeline) return [];
+
+      const parts =
+        splitAt === undefined
+          ? [timeline]
+          : [
+              applyEdit(timeline, { type: "trim", start: 0, end: splitAt }),
+              applyEdit(timeline, {
+                type: "trim",
+                start: splitAt,
+                end: duration,
+              }),
+            ];
+
+      const rendered = await Promise.all(
+        parts.map((part) => renderTimeline(source, part))
+      );
+      return rendered.map((buffer) => encodeWav(buffer));
+    },
+    [source, timeline, duration]
+  );
+
+  return {
+    isDecoding,
+    preview,
+    duration,
+    selection,
+    setSelection,
+    cursor,
+    setCursor,
+    playhead,
+    isPlaying: playhead !== null,
+    applyToSelection,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    togglePlayback,
+    exportAudio,
+  };
+};
+
+export default useAudioEditor;
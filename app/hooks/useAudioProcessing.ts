@@ -0,0 +1,105 @@
+import { useCallback, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  ProcessingOptions,
+  processBuffer,
+} from "../libs/audioProcessing";
+import { LoudnessMeasurement, measureLoudness } from "../libs/loudness";
+import { encodeWav } from "../libs/wavHelpers";
+
+export interface ProcessingTools {
+  // Measurements by item id, shown in each item's processing menu
+  measurements: Record<string, LoudnessMeasurement>;
+  busyId: string | null;
+  measure: (id: string) => Promise<void>;
+  apply: (id: string, options: ProcessingOptions) => Promise<void>;
+}
+
+const decodeAudio = async (audioBinary: ArrayBuffer) => {
+  const context = new AudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given
+    return await context.decodeAudioData(audioBinary.slice(0));
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Renders a processed copy of `audioBinary` as WAV.
+ */
+export const processAudio = async (
+  audioBinary: ArrayBuffer,
+  options: ProcessingOptions
+): Promise<ArrayBuffer> =>
+  encodeWav(await processBuffer(await decodeAudio(audioBinary), options));
+
+/**
+ * Normalizes `audioBinary` to `targetLufs` through the limiter, the post-step
+ * offered after generating speech and recording.
+ */
+export const normalizeAudio = (audioBinary: ArrayBuffer, targetLufs: number) =>
+  processAudio(audioBinary, { ...DEFAULT_PROCESSING_OPTIONS, targetLufs });
+
+/**
+ * Loudness measurement and processing for history items. Results are saved as
+ * new versions through `saveEditedVersions`, like the waveform editor does.
+ */
+const useAudioProcessing = (
+  items: { id: string; audioBinary: ArrayBuffer }[],
+  saveEditedVersions: (
+    sourceId: string,
+    audioBinaries: ArrayBuffer[]
+  ) => Promise<void>
+): ProcessingTools => {
+  const [measurements, setMeasurements] = useState<
+    Record<string, LoudnessMeasurement>
+  >({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const measure = useCallback(
+    async (id: string) => {
+      const item = items.find((entry) => entry.id === id);
+      if (!item) return;
+
+      setBusyId(id);
+      try {
+        const measurement = measureLoudness(
+          await decodeAudio(item.audioBinary)
+        );
+        setMeasurements((prev) => ({ ...prev, [id]: measurement }));
+      } catch (error) {
+        console.error("Failed to measure loudness:", error);
+        toast.error("Failed to analyze audio");
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [items]
+  );
+
+  const apply = useCallback(
+    async (id: string, options: ProcessingOptions) => {
+      const item = items.find((entry) => entry.id === id);
+      if (!item) return;
+
+      setBusyId(id);
+      try {
+        await saveEditedVersions(id, [
+          await processAudio(item.audioBinary, options),
+        ]);
+      } catch (error) {
+        console.error("Failed to process audio:", error);
+        toast.error("Failed to process audio");
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [items, saveEditedVersions]
+  );
+
+  return { measurements, busyId, measure, apply };
+};
+
+export default useAudioProcessing;
@@ -3,36 +3,147 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import toast from "react-hot-toast";
 import {
+  RecorderSettings,
+  RecordingChunk,
   RecordingItem,
   addItem,
   deleteItem,
+  deleteItems,
   loadItems,
   clearStore,
 } from "../libs/indexedDBHelpers";
+import {
+  InputLevel,
+  InputMeter,
+  SILENT_LEVEL,
+  createInputMeter,
+} from "../libs/inputMeter";
+import { getEditedText } from "../libs/audioEdits";
+import { CONTAINER_FORMATS, probeAudio } from "../libs/audioProbe";
+import { DEFAULT_SILENCE_OPTIONS } from "../libs/silenceDetection";
+import { alignWordTimings } from "../libs/wordTimings";
+import {
+  TTSErrorCode,
+  TTSResponseError,
+  readErrorResponse,
+} from "../services/tts/errors";
+import { Transcription } from "../services/stt/types";
+import { normalizeAudio } from "./useAudioProcessing";
+import { removeSilence } from "./useSilenceTools";
 
 interface UseAudioRecorderResult {
   startRecording: () => Promise<void>;
   stopRecording: () => Promise<void>;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
   isRecording: boolean;
+  isPaused: boolean;
+  // Recorded time so far, not counting pauses
+  elapsedMs: number;
+  level: InputLevel;
+  // Recent peak levels, oldest first, for a scrolling waveform
+  waveform: number[];
   recordings: RecordingItem[];
   deleteRecording: (id: string) => Promise<void>;
   clearAllRecordings: () => Promise<void>;
   uploadRecordings: (files: File[]) => Promise<void>;
+  // Resolves with the transcript, or null when transcription failed
+  transcribeRecording: (id: string) => Promise<string | null>;
+  transcribingIds: string[];
+  // Stores waveform editor output as new recordings
+  saveEditedVersions: (
+    sourceId: string,
+    audioBinaries: ArrayBuffer[]
+  ) => Promise<void>;
+  // Sessions left behind by a crash or reload, found on load
+  unfinishedRecordings: UnfinishedRecording[];
+  recoverRecording: (sessionId: string) => Promise<void>;
+  discardUnfinishedRecording: (sessionId: string) => Promise<void>;
 }
 
-const dbConfig = {
+export interface UnfinishedRecording {
+  sessionId: string;
+  startedAt: number;
+  chunkCount: number;
+  size: number; // Bytes
+}
+
+export const dbConfig = {
   dbName: "audioRecorderDatabase",
-  storeNames: ["recordings"],
-  dbVersion: 1,
+  storeNames: ["recordings", "recorderSettings", "recordingChunks"],
+  dbVersion: 3, // Increment version to trigger schema update
+};
+
+// Transcription backends detect the format from the file extension
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/aac": "aac",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/flac": "flac",
 };
 
-const useAudioRecorder = (): UseAudioRecorderResult => {
+// About six seconds of history at the meter's update rate
+const WAVEFORM_LENGTH = 120;
+const ELAPSED_INTERVAL_MS = 200;
+
+const getChunkId = (sessionId: string, index: number) =>
+  `${sessionId}-${index.toString().padStart(6, "0")}`;
+
+const getChunkIds = (sessionId: string, count: number) =>
+  Array.from({ length: count }, (_, index) => getChunkId(sessionId, index));
+
+const loadSessionChunks = async (sessionId: string) =>
+  (await loadItems<RecordingChunk>(dbConfig, "recordingChunks"))
+    .filter((chunk) => chunk.sessionId === sessionId)
+    .sort((a, b) => a.index - b.index);
+
+const getFileName = (mimeType = "audio/webm") =>
+  `recording.${FILE_EXTENSIONS[mimeType.split(";")[0].trim()] || "webm"}`;
+
+const getAudioConstraints = (
+  settings: RecorderSettings,
+  withDevice = true
+): MediaTrackConstraints => ({
+  deviceId:
+    withDevice && settings.deviceId ? { exact: settings.deviceId } : undefined,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+  sampleRate: settings.sampleRate ? { ideal: settings.sampleRate } : undefined,
+  channelCount: { ideal: settings.channelCount },
+});
+
+const useAudioRecorder = (
+  settings: RecorderSettings
+): UseAudioRecorderResult => {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  // Chunk writes run one at a time so they land in order
+  const chunkWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const chunkWriteFailedRef = useRef(false);
+  const meterRef = useRef<InputMeter | null>(null);
+  const elapsedTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Time recorded before the current segment, and when that segment began
+  const recordedMsRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  const isPausedRef = useRef(false);
 
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [level, setLevel] = useState<InputLevel>(SILENT_LEVEL);
+  const [waveform, setWaveform] = useState<number[]>([]);
   const [recordings, setRecordings] = useState<RecordingItem[]>([]);
+  const [transcribingIds, setTranscribingIds] = useState<string[]>([]);
+  const [unfinishedRecordings, setUnfinishedRecordings] = useState<
+    UnfinishedRecording[]
+  >([]);
 
   // Initialize the database and load initial data
   useEffect(() => {
@@ -53,6 +164,30 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
           .sort((a, b) => b.timestamp - a.timestamp);
 
         setRecordings(processedItems);
+
+        // Chunks still on disk belong to sessions that never reached onstop
+        const chunks = await loadItems<RecordingChunk>(
+          dbConfig,
+          "recordingChunks"
+        );
+        const sessions = new Map<string, UnfinishedRecording>();
+        chunks.forEach((chunk) => {
+          const session = sessions.get(chunk.sessionId) || {
+            sessionId: chunk.sessionId,
+            startedAt: chunk.timestamp,
+            chunkCount: 0,
+            size: 0,
+          };
+          session.startedAt = Math.min(session.startedAt, chunk.timestamp);
+          session.chunkCount++;
+          session.size += chunk.data.byteLength;
+          sessions.set(chunk.sessionId, session);
+        });
+        setUnfinishedRecordings(
+          Array.from(sessions.values()).sort(
+            (a, b) => b.startedAt - a.startedAt
+          )
+        );
       } catch (error) {
         console.error("Failed to initialize:", error);
         toast.error("Failed to load saved audios");
@@ -72,11 +207,128 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((track) => track.stop());
       }
+      meterRef.current?.stop();
+      if (elapsedTimerRef.current) clearInterval(elapsedTimerRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Replaces the placeholder text of a recording with its transcript
+  const transcribe = useCallback(
+    async (item: RecordingItem): Promise<string | null> => {
+      setTranscribingIds((prev) => [...prev, item.id]);
+
+      try {
+        const form = new FormData();
+        form.append(
+          "file",
+          new Blob([item.audioBinary], { type: item.mimeType }),
+          getFileName(item.mimeType)
+        );
+
+        const response = await fetch("/api/speech-to-text", {
+          method: "POST",
+          body: form,
+        });
+        if (!response.ok) throw await readErrorResponse(response);
+
+        const transcription = (await response.json()) as Transcription;
+        if (!transcription.text) {
+          toast("No speech detected in the recording");
+          return null;
+        }
+
+        const updates = {
+          text: transcription.text,
+          language: transcription.language,
+          timings: alignWordTimings(
+            transcription.text,
+            transcription.words,
+            transcription.duration
+          ),
+        };
+
+        await addItem(dbConfig, "recordings", { ...item, ...updates });
+        setRecordings((prev) =>
+          prev.map((recording) =>
+            recording.id === item.id ? { ...recording, ...updates } : recording
+          )
+        );
+        return transcription.text;
+      } catch (error) {
+        console.error("Failed to transcribe recording:", error);
+        toast.error(
+          error instanceof TTSResponseError &&
+            error.body.code !== TTSErrorCode.INTERNAL_ERROR
+            ? `Transcription failed: ${error.message}`
+            : "Failed to transcribe recording"
+        );
+        return null;
+      } finally {
+        setTranscribingIds((prev) => prev.filter((id) => id !== item.id));
+      }
+    },
+    []
+  );
+
+  const transcribeRecording = useCallback(
+    async (id: string) => {
+      const item = recordings.find((recording) => recording.id === id);
+      return item ? transcribe(item) : null;
+    },
+    [recordings, transcribe]
+  );
+
+  const getElapsedMs = () =>
+    recordedMsRef.current +
+    (segmentStartRef.current === null
+      ? 0
+      : Date.now() - segmentStartRef.current);
+
+  const startMonitoring = useCallback((stream: MediaStream) => {
+    recordedMsRef.current = 0;
+    segmentStartRef.current = Date.now();
+    isPausedRef.current = false;
+    setElapsedMs(0);
+    setWaveform([]);
+
+    elapsedTimerRef.current = setInterval(
+      () => setElapsedMs(getElapsedMs()),
+      ELAPSED_INTERVAL_MS
+    );
+
+    try {
+      meterRef.current = createInputMeter(stream, (nextLevel) => {
+        setLevel(nextLevel);
+        if (isPausedRef.current) return;
+        setWaveform((prev) => [
+          ...prev.slice(-(WAVEFORM_LENGTH - 1)),
+          nextLevel.peak,
+        ]);
+      });
+    } catch (error) {
+      // Recording still works without the meter
+      console.warn("Level metering unavailable:", error);
+    }
+  }, []);
+
+  const stopMonitoring = useCallback(() => {
+    meterRef.current?.stop();
+    meterRef.current = null;
+    if (elapsedTimerRef.current) {
+      clearInterval(elapsedTimerRef.current);
+      elapsedTimerRef.current = null;
+    }
+
+    segmentStartRef.current = null;
+    isPausedRef.current = false;
+    setIsPaused(false);
+    setLevel(SILENT_LEVEL);
+  }, []);
+
   const cleanupRecording = useCallback(() => {
+    stopMonitoring();
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
       streamRef.current = null;
@@ -84,6 +336,38 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
 
     mediaRecorderRef.current = null;
     setIsRecording(false);
+  }, [stopMonitoring]);
+
+  const persistChunk = useCallback(
+    (sessionId: string, index: number, blob: Blob, mimeType: string) => {
+      chunkWritesRef.current = chunkWritesRef.current
+        .then(async () => {
+          const chunk: RecordingChunk = {
+            id: getChunkId(sessionId, index),
+            sessionId,
+            index,
+            data: await blob.arrayBuffer(),
+            mimeType,
+            timestamp: Date.now(),
+          };
+          await addItem(dbConfig, "recordingChunks", chunk);
+        })
+        .catch((error) => {
+          console.error("Failed to back up recording chunk:", error);
+          if (chunkWriteFailedRef.current) return;
+          chunkWriteFailedRef.current = true;
+          toast.error("Backup failed, keep this tab open until you stop");
+        });
+    },
+    []
+  );
+
+  const discardChunks = useCallback(async (chunkIds: string[]) => {
+    try {
+      await deleteItems(dbConfig, "recordingChunks", chunkIds);
+    } catch (error) {
+      console.error("Failed to remove recording backup:", error);
+    }
   }, []);
 
   const startRecording = useCallback(async () => {
@@ -93,30 +377,49 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
     }
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: getAudioConstraints(settings),
+        });
+      } catch (error) {
+        // The saved microphone may have been unplugged since it was picked
+        if (
+          !settings.deviceId ||
+          !(error instanceof DOMException) ||
+          error.name !== "OverconstrainedError"
+        ) {
+          throw error;
+        }
+        toast.error("Selected microphone not found, using the default");
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: getAudioConstraints(settings, false),
+        });
+      }
 
       streamRef.current = stream;
       audioChunksRef.current = [];
+      const sessionId = Date.now().toString();
+      sessionIdRef.current = sessionId;
+      chunkWriteFailedRef.current = false;
 
+      const audioBitsPerSecond = settings.audioBitsPerSecond || undefined;
       let recorder: MediaRecorder;
       try {
         recorder = new MediaRecorder(stream, {
-          mimeType: "audio/webm;codecs=opus",
+          mimeType: settings.mimeType || undefined,
+          audioBitsPerSecond,
         });
       } catch (e) {
         console.warn("Preferred MIME type not supported, using default", e);
-        recorder = new MediaRecorder(stream);
+        recorder = new MediaRecorder(stream, { audioBitsPerSecond });
       }
 
       recorder.ondataavailable = (event) => {
         if (event.data && event.data.size > 0) {
+          const index = audioChunksRef.current.length;
           audioChunksRef.current.push(event.data);
+          persistChunk(sessionId, index, event.data, recorder.mimeType);
         }
       };
 
@@ -128,6 +431,7 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
 
       mediaRecorderRef.current = recorder;
       recorder.start(1000); // Start recording with 1-second intervals
+      startMonitoring(stream);
       setIsRecording(true);
       toast.success("Recording started");
     } catch (error) {
@@ -146,7 +450,92 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
       }
       cleanupRecording();
     }
-  }, [cleanupRecording, isRecording]);
+  }, [cleanupRecording, isRecording, persistChunk, settings, startMonitoring]);
+
+  const pauseRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== "recording") return;
+
+    recorder.pause();
+    recordedMsRef.current = getElapsedMs();
+    segmentStartRef.current = null;
+    isPausedRef.current = true;
+    setIsPaused(true);
+    setElapsedMs(recordedMsRef.current);
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== "paused") return;
+
+    recorder.resume();
+    segmentStartRef.current = Date.now();
+    isPausedRef.current = false;
+    setIsPaused(false);
+  }, []);
+
+  const addEditedVersions = useCallback(
+    async (source: RecordingItem, audioBinaries: ArrayBuffer[]) => {
+      const timestamp = Date.now();
+      const newRecordings: RecordingItem[] = [];
+
+      for (const [index, audioBinary] of audioBinaries.entries()) {
+        const newItem: RecordingItem = {
+          id: `${timestamp}-${index}`,
+          audioUrl: URL.createObjectURL(
+            new Blob([audioBinary], { type: "audio/wav" })
+          ),
+          audioBinary,
+          // Newest first, so earlier parts get the later timestamps
+          timestamp: timestamp + audioBinaries.length - 1 - index,
+          text: getEditedText(source.text, index, audioBinaries.length),
+          mimeType: "audio/wav",
+          language: source.language,
+          metadata: await probeAudio(audioBinary),
+          editedFrom: source.id,
+        };
+
+        await addItem(dbConfig, "recordings", newItem);
+        newRecordings.push(newItem);
+      }
+
+      setRecordings((prevRecordings) => [...newRecordings, ...prevRecordings]);
+      toast.success("Edited audio saved");
+    },
+    []
+  );
+
+  // Saves one cleaned-up copy with the dead air at either end trimmed and
+  // the loudness normalized, whichever of the two are enabled
+  const postProcessRecording = useCallback(
+    async (
+      item: RecordingItem,
+      trimSilence: boolean,
+      normalizeLufs: number
+    ) => {
+      try {
+        let processed: ArrayBuffer | null = null;
+        if (trimSilence) {
+          processed = await removeSilence(
+            item.audioBinary,
+            "trimEnds",
+            DEFAULT_SILENCE_OPTIONS
+          );
+        }
+        if (normalizeLufs !== 0) {
+          processed = await normalizeAudio(
+            processed ?? item.audioBinary,
+            normalizeLufs
+          );
+        }
+        if (processed) await addEditedVersions(item, [processed]);
+      } catch (error) {
+        console.error("Failed to process recording:", error);
+        toast.error("Failed to process the recording");
+      }
+    },
+    [addEditedVersions]
+  );
 
   const stopRecording = useCallback(async () => {
     const recorder = mediaRecorderRef.current;
@@ -159,6 +548,10 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
     return new Promise<void>((resolve) => {
       recorder.onstop = async () => {
         try {
+          // Let pending backups land before they are cleaned up
+          await chunkWritesRef.current;
+          const sessionId = sessionIdRef.current;
+
           if (audioChunksRef.current.length === 0) {
             toast.error("No audio data captured");
             cleanupRecording();
@@ -201,12 +594,30 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
             audioBinary: arrayBuffer,
             timestamp,
             text: `Rec ${new Date(timestamp).toLocaleString()}`,
+            mimeType,
           };
 
           try {
             await addItem(dbConfig, "recordings", newItem);
             setRecordings((prevRecordings) => [newItem, ...prevRecordings]);
             toast.success("Recording saved");
+            // The processed copy waits for the transcript so it is saved
+            // with it rather than with the placeholder text
+            transcribe(newItem).then((text) => {
+              if (!settings.autoTrimSilence && settings.normalizeLufs === 0) {
+                return;
+              }
+              postProcessRecording(
+                text ? { ...newItem, text } : newItem,
+                settings.autoTrimSilence,
+                settings.normalizeLufs
+              );
+            });
+            if (sessionId) {
+              discardChunks(
+                getChunkIds(sessionId, audioChunksRef.current.length)
+              );
+            }
           } catch (error) {
             console.error("Failed to save recording:", error);
             toast.error("Failed to save recording");
@@ -232,7 +643,76 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
         resolve();
       }
     });
-  }, [cleanupRecording]);
+  }, [
+    cleanupRecording,
+    discardChunks,
+    transcribe,
+    settings.autoTrimSilence,
+    settings.normalizeLufs,
+    postProcessRecording,
+  ]);
+
+  const recoverRecording = useCallback(
+    async (sessionId: string) => {
+      try {
+        const chunks = await loadSessionChunks(sessionId);
+        if (chunks.length === 0) {
+          toast.error("Nothing left to recover");
+          setUnfinishedRecordings((prev) =>
+            prev.filter((session) => session.sessionId !== sessionId)
+          );
+          return;
+        }
+
+        const mimeType = chunks[0].mimeType || "audio/webm";
+        const audioBlob = new Blob(
+          chunks.map((chunk) => chunk.data),
+          { type: mimeType }
+        );
+        const timestamp = Date.now();
+
+        const newItem: RecordingItem = {
+          id: timestamp.toString(),
+          audioUrl: URL.createObjectURL(audioBlob),
+          audioBinary: await audioBlob.arrayBuffer(),
+          timestamp,
+          text: `Recovered rec ${new Date(
+            chunks[0].timestamp
+          ).toLocaleString()}`,
+          mimeType,
+        };
+
+        await addItem(dbConfig, "recordings", newItem);
+        await discardChunks(chunks.map((chunk) => chunk.id));
+        setRecordings((prevRecordings) => [newItem, ...prevRecordings]);
+        setUnfinishedRecordings((prev) =>
+          prev.filter((session) => session.sessionId !== sessionId)
+        );
+        toast.success("Recording recovered");
+        transcribe(newItem);
+      } catch (error) {
+        console.error("Failed to recover recording:", error);
+        toast.error("Failed to recover recording");
+      }
+    },
+    [discardChunks, transcribe]
+  );
+
+  const discardUnfinishedRecording = useCallback(
+    async (sessionId: string) => {
+      try {
+        const chunks = await loadSessionChunks(sessionId);
+        await discardChunks(chunks.map((chunk) => chunk.id));
+        setUnfinishedRecordings((prev) =>
+          prev.filter((session) => session.sessionId !== sessionId)
+        );
+      } catch (error) {
+        console.error("Failed to discard unfinished recording:", error);
+        toast.error("Failed to discard unfinished recording");
+      }
+    },
+    [discardChunks]
+  );
 
   const deleteRecording = useCallback(
     async (id: string) => {
@@ -277,60 +757,97 @@ const useAudioRecorder = (): UseAudioRecorderResult => {
     }
   }, [recordings]);
 
-  const uploadRecordings = useCallback(async (files: File[]) => {
-    if (!files || files.length === 0) {
-      toast.error("No files selected for upload.");
-      return;
-    }
+  const uploadRecordings = useCallback(
+    async (files: File[]) => {
+      if (!files || files.length === 0) {
+        toast.error("No files selected for upload.");
+        return;
+      }
 
-    try {
-      const newRecordings: RecordingItem[] = [];
+      try {
+        const newRecordings: RecordingItem[] = [];
 
-      for (const file of files) {
-        if (file.type !== "audio/mpeg") {
-          toast.error(`Unsupported file type: ${file.name}`);
-          continue;
-        }
+        for (const file of files) {
+          const arrayBuffer = await file.arrayBuffer();
 
-        const arrayBuffer = await file.arrayBuffer();
-        const audioUrl = URL.createObjectURL(file);
-        const timestamp = Date.now();
+          let metadata;
+          try {
+            metadata = await probeAudio(arrayBuffer);
+          } catch (error) {
+            toast.error(
+              `${file.name}: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
+            continue;
+          }
 
-        const newItem: RecordingItem = {
-          id: timestamp.toString(),
-          audioUrl,
-          audioBinary: arrayBuffer,
-          timestamp,
-          text: `Upload ${new Date(timestamp).toLocaleString()}`,
-        };
+          // The browser's guess comes from the extension, so use what we found
+          const { mimeType } = CONTAINER_FORMATS[metadata.format];
+          const audioBlob = new Blob([arrayBuffer], { type: mimeType });
+          const audioUrl = URL.createObjectURL(audioBlob);
+          const timestamp = Date.now();
 
-        await addItem(dbConfig, "recordings", newItem);
-        newRecordings.push(newItem);
-      }
+          const newItem: RecordingItem = {
+            id: timestamp.toString(),
+            audioUrl,
+            audioBinary: arrayBuffer,
+            timestamp,
+            text: `Upload ${new Date(timestamp).toLocaleString()}`,
+            mimeType,
+            metadata,
+          };
 
-      if (newRecordings.length > 0) {
-        setRecordings((prevRecordings) => [
-          ...newRecordings,
-          ...prevRecordings,
-        ]);
-        toast.success(
-          `${newRecordings.length} recording(s) uploaded successfully.`
-        );
+          await addItem(dbConfig, "recordings", newItem);
+          newRecordings.push(newItem);
+        }
+
+        if (newRecordings.length > 0) {
+          setRecordings((prevRecordings) => [
+            ...newRecordings,
+            ...prevRecordings,
+          ]);
+          toast.success(
+            `${newRecordings.length} recording(s) uploaded successfully.`
+          );
+          newRecordings.forEach(transcribe);
+        }
+      } catch (error) {
+        console.error("Failed to upload recordings:", error);
+        toast.error("Failed to upload recordings.");
       }
-    } catch (error) {
-      console.error("Failed to upload recordings:", error);
-      toast.error("Failed to upload recordings.");
-    }
-  }, []);
+    },
+    [transcribe]
+  );
+
+  const saveEditedVersions = useCallback(
+    async (sourceId: string, audioBinaries: ArrayBuffer[]) => {
+      const source = recordings.find((item) => item.id === sourceId);
+      if (source) await addEditedVersions(source, audioBinaries);
+    },
+    [recordings, addEditedVersions]
+  );
 
   return {
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     isRecording,
+    isPaused,
+    elapsedMs,
+    level,
+    waveform,
     recordings,
     deleteRecording,
     clearAllRecordings,
     uploadRecordings,
+    transcribeRecording,
+    transcribingIds,
+    saveEditedVersions,
+    unfinishedRecordings,
+    recoverRecording,
+    discardUnfinishedRecording,
   };
 };
 
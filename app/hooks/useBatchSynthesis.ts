@@ -0,0 +1,202 @@
+import { useCallback, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { AudioFormat, TTSModel } from "../constants";
+import { createAudioUrls } from "../libs/audioUrls";
+import { BatchInputItem } from "../libs/batchInput";
+import { base64ToArrayBuffer } from "../libs/encoding";
+import { isAbortError } from "../libs/fetchWithRetry";
+import { TTSHistoryItem } from "../libs/indexedDBHelpers";
+import { readNdjson } from "../libs/streamHelpers";
+import {
+  TTSResponseError,
+  describeTTSError,
+  readErrorResponse,
+} from "../services/tts/errors";
+import { BatchEvent } from "../services/tts/types";
+
+export type BatchJobStatus = "queued" | "running" | "done" | "error";
+
+export interface BatchJob extends BatchInputItem {
+  id: string;
+  status: BatchJobStatus;
+  error?: string;
+}
+
+export interface SynthesisSettings {
+  language: string;
+  isOptimizeWithAI: boolean;
+  voice: string;
+  provider: string;
+  speed: number;
+  model: TTSModel;
+  format: AudioFormat;
+}
+
+interface UseBatchSynthesisResult {
+  jobs: BatchJob[];
+  isRunning: boolean;
+  startBatch: (items: BatchInputItem[]) => Promise<void>;
+  retryJobs: (ids?: string[]) => Promise<void>;
+  cancelBatch: () => void;
+  clearJobs: () => void;
+}
+
+/**
+ * Runs lists of texts through the batch endpoint and tracks each item.
+ * Finished clips are handed to `saveHistoryItem` as they arrive and
+ * `onSettled` runs after every batch.
+ */
+const useBatchSynthesis = (
+  settings: SynthesisSettings,
+  saveHistoryItem: (item: TTSHistoryItem) => Promise<TTSHistoryItem>,
+  onSettled?: () => void
+): UseBatchSynthesisResult => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateJob = useCallback((id: string, update: Partial<BatchJob>) => {
+    setJobs((prev) =>
+      prev.map((job) => (job.id === id ? { ...job, ...update } : job))
+    );
+  }, []);
+
+  const runJobs = useCallback(
+    async (batch: BatchJob[]) => {
+      if (batch.length === 0) return;
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      setIsRunning(true);
+
+      const ids = new Set(batch.map((job) => job.id));
+      setJobs((prev) =>
+        prev.map((job) =>
+          ids.has(job.id) ? { ...job, status: "queued", error: undefined } : job
+        )
+      );
+
+      const failAll = (message: string) =>
+        setJobs((prev) =>
+          prev.map((job) =>
+            ids.has(job.id) &&
+            (job.status === "queued" || job.status === "running")
+              ? { ...job, status: "error", error: message }
+              : job
+          )
+        );
+
+      try {
+        const response = await fetch("/api/text-to-speech/batch", {
+          method: "POST",
+          signal: abortController.signal,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...settings,
+            items: batch.map(({ text, voice }) => ({
+              text,
+              voice: voice || settings.voice,
+            })),
+          }),
+        });
+
+        if (!response.ok) throw await readErrorResponse(response);
+        if (!response.body) throw new Error("Empty response body");
+
+        const saves: Promise<void>[] = [];
+        await readNdjson<BatchEvent>(response.body, (event) => {
+          if (event.type === "end") return;
+
+          const job = batch[event.index];
+          if (event.type === "start") {
+            updateJob(job.id, { status: "running" });
+          } else if (event.type === "error") {
+            updateJob(job.id, {
+              status: "error",
+              error: describeTTSError(event.error),
+            });
+          } else {
+            const audioBinary = base64ToArrayBuffer(event.audio);
+            const item: TTSHistoryItem = {
+              id: `${Date.now()}-${job.id}`,
+              text: job.text,
+              ...createAudioUrls(audioBinary, settings.format),
+              audioBinary,
+              timestamp: Date.now(),
+              format: settings.format,
+            };
+
+            saves.push(
+              saveHistoryItem(item)
+                .then(() => updateJob(job.id, { status: "done" }))
+                .catch((error) => {
+                  console.error("Failed to save batch item:", error);
+                  updateJob(job.id, {
+                    status: "error",
+                    error: "Failed to save to history",
+                  });
+                })
+            );
+          }
+        });
+        await Promise.all(saves);
+
+        // Items the stream never reported on, e.g. after a dropped connection
+        failAll("No result received");
+      } catch (error) {
+        if (isAbortError(error)) {
+          failAll("Cancelled");
+          return;
+        }
+
+        console.error("Error running TTS batch:", error);
+        const message =
+          error instanceof TTSResponseError
+            ? error.message
+            : "Failed to generate speech";
+        toast.error(message);
+        failAll(message);
+      } finally {
+        abortControllerRef.current = null;
+        setIsRunning(false);
+        onSettled?.();
+      }
+    },
+    [settings, saveHistoryItem, updateJob, onSettled]
+  );
+
+  const startBatch = useCallback(
+    async (items: BatchInputItem[]) => {
+      const newJobs: BatchJob[] = items.map((item, index) => ({
+        ...item,
+        id: `${Date.now()}-${index}`,
+        status: "queued",
+      }));
+
+      setJobs(newJobs);
+      await runJobs(newJobs);
+    },
+    [runJobs]
+  );
+
+  // Re-runs the given jobs, or every failed one
+  const retryJobs = useCallback(
+    async (ids?: string[]) => {
+      const retry = jobs.filter((job) =>
+        ids ? ids.includes(job.id) : job.status === "error"
+      );
+      await runJobs(retry);
+    },
+    [jobs, runJobs]
+  );
+
+  const cancelBatch = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const clearJobs = useCallback(() => setJobs([]), []);
+
+  return { jobs, isRunning, startBatch, retryJobs, cancelBatch, clearJobs };
+};
+
+export default useBatchSynthesis;
@@ -0,0 +1,196 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { createAudioUrls } from "../libs/audioUrls";
+import {
+  DEFAULT_TURN_GAP_MS,
+  DialogueScript,
+  ScriptError,
+  assignVoices,
+  formatDialogueScript,
+  getSpeakers,
+  parseDialogueScript,
+} from "../libs/dialogueScript";
+import { base64ToArrayBuffer } from "../libs/encoding";
+import { isAbortError } from "../libs/fetchWithRetry";
+import { TTSHistoryItem } from "../libs/indexedDBHelpers";
+import { TTSResponseError, readErrorResponse } from "../services/tts/errors";
+import { SynthesisSettings } from "./useBatchSynthesis";
+
+interface DialogueResponse {
+  audio: string;
+  contentType: string;
+  stems: Record<string, string> | null;
+}
+
+interface UseDialogueScriptResult {
+  script: string;
+  setScript: (script: string) => void;
+  errors: ScriptError[];
+  speakers: string[];
+  speakerVoices: Record<string, string>;
+  setSpeakerVoice: (speaker: string, voice: string) => void;
+  gapMs: number;
+  setGapMs: (gapMs: number) => void;
+  withStems: boolean;
+  setWithStems: (withStems: boolean) => void;
+  isGenerating: boolean;
+  lastItem: TTSHistoryItem | null;
+  generateDialogue: () => Promise<void>;
+  cancelDialogue: () => void;
+  openScript: (script: DialogueScript) => void;
+}
+
+/**
+ * State and rendering of a multi-speaker script. Rendered dialogues are
+ * saved with their script so they can be reopened later.
+ */
+const useDialogueScript = (
+  settings: SynthesisSettings,
+  voices: Record<string, string>,
+  saveHistoryItem: (item: TTSHistoryItem) => Promise<TTSHistoryItem>,
+  onSettled?: () => void
+): UseDialogueScriptResult => {
+  const [script, setScript] = useState("");
+  const [chosenVoices, setChosenVoices] = useState<Record<string, string>>({});
+  const [gapMs, setGapMs] = useState(DEFAULT_TURN_GAP_MS);
+  const [withStems, setWithStems] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [lastItem, setLastItem] = useState<TTSHistoryItem | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Voice names and speakers given a voice may be named freely
+  const knownSpeakers = useMemo(
+    () => [
+      ...Object.keys(voices),
+      ...Object.values(voices),
+      ...Object.keys(chosenVoices),
+    ],
+    [voices, chosenVoices]
+  );
+  const { turns, errors } = useMemo(
+    () => parseDialogueScript(script, knownSpeakers),
+    [script, knownSpeakers]
+  );
+  const speakers = useMemo(() => getSpeakers(turns), [turns]);
+
+  // Speakers without a choice get a voice automatically
+  const speakerVoices = useMemo(
+    () => assignVoices(speakers, chosenVoices, Object.keys(voices)),
+    [speakers, chosenVoices, voices]
+  );
+
+  const setSpeakerVoice = useCallback((speaker: string, voice: string) => {
+    setChosenVoices((prev) => ({ ...prev, [speaker]: voice }));
+  }, []);
+
+  const openScript = useCallback((dialogue: DialogueScript) => {
+    setScript(formatDialogueScript(dialogue.turns));
+    setChosenVoices(dialogue.speakers);
+    setGapMs(dialogue.gapMs);
+  }, []);
+
+  const generateDialogue = useCallback(async () => {
+    if (turns.length === 0) {
+      toast.error("Write at least one `Speaker: text` line");
+      return;
+    }
+    if (errors.length > 0) {
+      toast.error(`Line ${errors[0].line}: ${errors[0].message}`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsGenerating(true);
+
+    try {
+      const response = await fetch("/api/text-to-speech/dialogue", {
+        method: "POST",
+        signal: abortController.signal,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...settings,
+          turns,
+          speakers: speakerVoices,
+          gapMs,
+          stems: withStems,
+        }),
+      });
+
+      if (!response.ok) throw await readErrorResponse(response);
+
+      const result = (await response.json()) as DialogueResponse;
+      const audioBinary = base64ToArrayBuffer(result.audio);
+      const item: TTSHistoryItem = {
+        id: Date.now().toString(),
+        text: formatDialogueScript(turns),
+        ...createAudioUrls(audioBinary, settings.format),
+        audioBinary,
+        timestamp: Date.now(),
+        format: settings.format,
+        script: { turns, speakers: speakerVoices, gapMs },
+        stems: result.stems
+          ? Object.entries(result.stems).map(([name, stem]) => {
+              const stemBinary = base64ToArrayBuffer(stem);
+              return {
+                name,
+                audioBinary: stemBinary,
+                ...createAudioUrls(stemBinary, settings.format),
+              };
+            })
+          : undefined,
+      };
+
+      setLastItem(await saveHistoryItem(item));
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast("Dialogue generation cancelled");
+        return;
+      }
+
+      console.error("Error generating dialogue:", error);
+      toast.error(
+        error instanceof TTSResponseError
+          ? error.message
+          : "Failed to generate dialogue"
+      );
+    } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+      onSettled?.();
+    }
+  }, [
+    turns,
+    errors,
+    settings,
+    speakerVoices,
+    gapMs,
+    withStems,
+    saveHistoryItem,
+    onSettled,
+  ]);
+
+  const cancelDialogue = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    script,
+    setScript,
+    errors,
+    speakers,
+    speakerVoices,
+    setSpeakerVoice,
+    gapMs,
+    setGapMs,
+    withStems,
+    setWithStems,
+    isGenerating,
+    lastItem,
+    generateDialogue,
+    cancelDialogue,
+    openScript,
+  };
+};
+
+export default useDialogueScript;
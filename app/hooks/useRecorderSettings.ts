@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { RECORDER_MIME_TYPES } from "../constants";
+import { RecorderSettings, addItem, loadItems } from "../libs/indexedDBHelpers";
+import { dbConfig } from "./useAudioRecorder";
+
+interface UseRecorderSettingsResult {
+  settings: RecorderSettings;
+  updateSettings: (updates: Partial<RecorderSettings>) => void;
+  // Microphones by device id, starting with the system default
+  devices: Record<string, string>;
+  // Recorder formats this browser can produce, by mime type
+  mimeTypes: Record<string, string>;
+  refreshDevices: () => Promise<void>;
+}
+
+// Matches what the recorder used before these settings existed
+export const DEFAULT_RECORDER_SETTINGS: RecorderSettings = {
+  id: 1,
+  deviceId: "",
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  sampleRate: 0,
+  channelCount: 1,
+  mimeType: "audio/webm;codecs=opus",
+  audioBitsPerSecond: 0,
+  autoTrimSilence: false,
+  normalizeLufs: 0,
+};
+
+const DEFAULT_DEVICES = { "": "System default" };
+
+const useRecorderSettings = (): UseRecorderSettingsResult => {
+  const [settings, setSettings] = useState<RecorderSettings>(
+    DEFAULT_RECORDER_SETTINGS
+  );
+  const [isInitializing, setIsInitializing] = useState(true);
+  const [devices, setDevices] =
+    useState<Record<string, string>>(DEFAULT_DEVICES);
+  const [mimeTypes, setMimeTypes] = useState<Record<string, string>>({
+    "": RECORDER_MIME_TYPES[""],
+  });
+
+  // Labels stay empty until the page has been granted microphone access
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(
+        (device) =>
+          device.kind === "audioinput" &&
+          device.deviceId &&
+          device.deviceId !== "default" &&
+          device.deviceId !== "communications"
+      );
+
+      setDevices({
+        ...DEFAULT_DEVICES,
+        ...Object.fromEntries(
+          inputs.map((device, index) => [
+            device.deviceId,
+            device.label || `Microphone ${index + 1}`,
+          ])
+        ),
+      });
+    } catch (error) {
+      console.error("Failed to list input devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const initializeSettings = async () => {
+      try {
+        const savedSettings = await loadItems<RecorderSettings>(
+          dbConfig,
+          "recorderSettings",
+          "id"
+        );
+        if (savedSettings.length > 0) {
+          setSettings({ ...DEFAULT_RECORDER_SETTINGS, ...savedSettings[0] });
+        }
+      } catch (error) {
+        console.error("Failed to load recorder settings:", error);
+      } finally {
+        setIsInitializing(false);
+      }
+    };
+
+    initializeSettings();
+    refreshDevices();
+
+    if (typeof MediaRecorder !== "undefined") {
+      setMimeTypes(
+        Object.fromEntries(
+          Object.entries(RECORDER_MIME_TYPES).filter(
+            ([mimeType]) => !mimeType || MediaRecorder.isTypeSupported(mimeType)
+          )
+        )
+      );
+    }
+
+    navigator.mediaDevices?.addEventListener("devicechange", refreshDevices);
+    return () => {
+      navigator.mediaDevices?.removeEventListener(
+        "devicechange",
+        refreshDevices
+      );
+    };
+  }, [refreshDevices]);
+
+  // Auto-save settings on change
+  useEffect(() => {
+    if (isInitializing) return;
+
+    addItem(dbConfig, "recorderSettings", settings).catch((error) => {
+      console.error("Failed to save recorder settings:", error);
+      toast.error("Failed to save recorder settings");
+    });
+  }, [settings, isInitializing]);
+
+  const updateSettings = useCallback((updates: Partial<RecorderSettings>) => {
+    setSettings((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  return { settings, updateSettings, devices, mimeTypes, refreshDevices };
+};
+
+export default useRecorderSettings;
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { LANGUAGES } from "../constants";
+import { createAudioUrls, revokeItemUrls } from "../libs/audioUrls";
+import { isAbortError } from "../libs/fetchWithRetry";
+import {
+  RecordingItem,
+  TTSHistoryItem,
+  addItem,
+} from "../libs/indexedDBHelpers";
+import { withWordTimings } from "../libs/wordTimings";
+import { TTSResponseError, readErrorResponse } from "../services/tts/errors";
+import { TTSProviderInfo } from "../services/tts/types";
+import { resolveVoice } from "../services/tts/voices";
+import { DB_CONFIG as TTS_DB_CONFIG } from "./useTextToSpeech";
+
+interface UseRevoiceResult {
+  recording: RecordingItem | null;
+  transcript: string;
+  setTranscript: (transcript: string) => void;
+  language: string;
+  providers: TTSProviderInfo[];
+  provider: string;
+  setProvider: (provider: string) => void;
+  voice: string;
+  setVoice: (voice: string) => void;
+  isTranscribing: boolean;
+  isSynthesizing: boolean;
+  result: TTSHistoryItem | null;
+  openRevoice: (recording: RecordingItem) => Promise<void>;
+  closeRevoice: () => void;
+  synthesize: () => Promise<void>;
+}
+
+/**
+ * Maps what a transcription backend reports (a code, or a name such as
+ * "english") onto a TTS language code.
+ */
+const toLanguageCode = (language?: string): string => {
+  const value = language?.toLowerCase() || "";
+  if (value in LANGUAGES) return value;
+
+  const match = Object.entries(LANGUAGES).find(
+    ([, name]) => name.toLowerCase() === value
+  );
+  return match ? match[0] : "en";
+};
+
+/**
+ * Turns a recording into a clean synthetic version: the transcript (made on
+ * demand when missing) is edited by the user, then synthesized with the
+ * chosen voice and saved to the TTS history with a link to the recording.
+ */
+const useRevoice = (
+  transcribeRecording: (id: string) => Promise<string | null>
+): UseRevoiceResult => {
+  const [recording, setRecording] = useState<RecordingItem | null>(null);
+  const [transcript, setTranscript] = useState("");
+  const [providers, setProviders] = useState<TTSProviderInfo[]>([]);
+  const [provider, setProviderId] = useState("");
+  const [voice, setVoice] = useState("");
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [result, setResult] = useState<TTSHistoryItem | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const language = toLanguageCode(recording?.language);
+  const activeProvider = providers.find((item) => item.id === provider);
+
+  useEffect(() => {
+    const loadProviders = async () => {
+      try {
+        const response = await fetch("/api/text-to-speech");
+        if (!response.ok) return;
+
+        const { providers: availableProviders, defaultProvider } =
+          (await response.json()) as {
+            providers: TTSProviderInfo[];
+            defaultProvider: string;
+          };
+        const initialProvider =
+          availableProviders.find((item) => item.id === defaultProvider) ||
+          availableProviders[0];
+
+        setProviders(availableProviders);
+        if (initialProvider) {
+          setProviderId(initialProvider.id);
+          setVoice(initialProvider.defaultVoice);
+        }
+      } catch (error) {
+        console.error("Failed to load TTS providers:", error);
+      }
+    };
+
+    loadProviders();
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const setProvider = useCallback(
+    (id: string) => {
+      const next = providers.find((item) => item.id === id);
+      if (!next) return;
+
+      setProviderId(id);
+      setVoice((current) => resolveVoice(next, current, language));
+    },
+    [providers, language]
+  );
+
+  const openRevoice = useCallback(
+    async (item: RecordingItem) => {
+      setRecording(item);
+      setResult((previous) => {
+        if (previous) revokeItemUrls(previous);
+        return null;
+      });
+
+      // Recordings that were transcribed already carry their transcript
+      if (item.timings) {
+        setTranscript(item.text);
+        return;
+      }
+
+      setTranscript("");
+      setIsTranscribing(true);
+      try {
+        setTranscript((await transcribeRecording(item.id)) || "");
+      } finally {
+        setIsTranscribing(false);
+      }
+    },
+    [transcribeRecording]
+  );
+
+  const closeRevoice = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setRecording(null);
+    setResult((previous) => {
+      if (previous) revokeItemUrls(previous);
+      return null;
+    });
+  }, []);
+
+  const synthesize = useCallback(async () => {
+    if (!recording || !activeProvider) return;
+    if (!transcript.trim()) {
+      toast.error("Transcript cannot be empty!");
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsSynthesizing(true);
+
+    try {
+      const response = await fetch("/api/text-to-speech", {
+        method: "POST",
+        signal: abortController.signal,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: transcript,
+          language,
+          isOptimizeWithAI: false,
+          voice,
+          provider: activeProvider.id,
+          format: "mp3",
+        }),
+      });
+      if (!response.ok) throw await readErrorResponse(response);
+
+      const audioBinary = await response.arrayBuffer();
+      const item = await withWordTimings<TTSHistoryItem>({
+        id: Date.now().toString(),
+        text: transcript,
+        ...createAudioUrls(audioBinary, "mp3"),
+        audioBinary,
+        timestamp: Date.now(),
+        format: "mp3",
+        sourceRecording: { id: recording.id, text: recording.text },
+      });
+
+      // The TTS tab reads its history from the database when it opens
+      await addItem(TTS_DB_CONFIG, "ttsHistory", item);
+      setResult(item);
+      toast.success("Re-voiced clip saved to the Text to Speech history");
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      console.error("Error re-voicing recording:", error);
+      toast.error(
+        error instanceof TTSResponseError
+          ? error.message
+          : "Failed to re-voice recording"
+      );
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsSynthesizing(false);
+      }
+    }
+  }, [recording, activeProvider, transcript, language, voice]);
+
+  return {
+    recording,
+    transcript,
+    setTranscript,
+    language,
+    providers,
+    provider,
+    setProvider,
+    voice,
+    setVoice,
+    isTranscribing,
+    isSynthesizing,
+    result,
+    openRevoice,
+    closeRevoice,
+    synthesize,
+  };
+};
+
+export default useRevoice;
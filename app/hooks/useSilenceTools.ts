@@ -0,0 +1,138 @@
+import { useCallback, useState } from "react";
+import toast from "react-hot-toast";
+import { AudioEdit, applyEdits, renderTimeline } from "../libs/audioEdits";
+import {
+  SilenceAnalysis,
+  SilenceOptions,
+  detectSilence,
+  getShortenPauseEdits,
+  getTrimSilenceEdit,
+} from "../libs/silenceDetection";
+import { encodeWav } from "../libs/wavHelpers";
+
+export type SilenceAction = "trimEnds" | "shortenPauses";
+
+export interface SilenceTools {
+  // Results by item id, shown on each item's progress bar
+  analyses: Record<string, SilenceAnalysis>;
+  busyId: string | null;
+  detect: (id: string, options: SilenceOptions) => Promise<void>;
+  apply: (
+    id: string,
+    action: SilenceAction,
+    options: SilenceOptions
+  ) => Promise<void>;
+}
+
+const decodeAudio = async (audioBinary: ArrayBuffer) => {
+  const context = new AudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given
+    return await context.decodeAudioData(audioBinary.slice(0));
+  } finally {
+    context.close();
+  }
+};
+
+const getSilenceEdits = (
+  action: SilenceAction,
+  analysis: SilenceAnalysis,
+  options: SilenceOptions
+): AudioEdit[] => {
+  if (action === "shortenPauses") {
+    return getShortenPauseEdits(analysis, options);
+  }
+  const trim = getTrimSilenceEdit(analysis);
+  return trim ? [trim] : [];
+};
+
+/**
+ * Renders a silence-trimmed copy of `audioBinary` as WAV, or null when the
+ * action finds nothing to remove.
+ */
+export const removeSilence = async (
+  audioBinary: ArrayBuffer,
+  action: SilenceAction,
+  options: SilenceOptions
+): Promise<ArrayBuffer | null> => {
+  const buffer = await decodeAudio(audioBinary);
+  const edits = getSilenceEdits(
+    action,
+    detectSilence(buffer, options),
+    options
+  );
+  if (edits.length === 0) return null;
+
+  return encodeWav(
+    await renderTimeline(buffer, applyEdits(buffer.duration, edits))
+  );
+};
+
+/**
+ * Silence detection and removal for history items. Results are saved as new
+ * versions through `saveEditedVersions`, like the waveform editor does.
+ */
+const useSilenceTools = (
+  items: { id: string; audioBinary: ArrayBuffer }[],
+  saveEditedVersions: (
+    sourceId: string,
+    audioBinaries: ArrayBuffer[]
+  ) => Promise<void>
+): SilenceTools => {
+  const [analyses, setAnalyses] = useState<Record<string, SilenceAnalysis>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const detect = useCallback(
+    async (id: string, options: SilenceOptions) => {
+      const item = items.find((entry) => entry.id === id);
+      if (!item) return;
+
+      setBusyId(id);
+      try {
+        const analysis = detectSilence(
+          await decodeAudio(item.audioBinary),
+          options
+        );
+        setAnalyses((prev) => ({ ...prev, [id]: analysis }));
+        if (analysis.regions.length === 0) toast("No silence found");
+      } catch (error) {
+        console.error("Failed to detect silence:", error);
+        toast.error("Failed to analyze audio");
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [items]
+  );
+
+  const apply = useCallback(
+    async (id: string, action: SilenceAction, options: SilenceOptions) => {
+      const item = items.find((entry) => entry.id === id);
+      if (!item) return;
+
+      setBusyId(id);
+      try {
+        const trimmed = await removeSilence(item.audioBinary, action, options);
+        if (!trimmed) {
+          toast(
+            action === "trimEnds"
+              ? "No leading or trailing silence found"
+              : "No long pauses found"
+          );
+          return;
+        }
+        await saveEditedVersions(id, [trimmed]);
+      } catch (error) {
+        console.error("Failed to remove silence:", error);
+        toast.error("Failed to remove silence");
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [items, saveEditedVersions]
+  );
+
+  return { analyses, busyId, detect, apply };
+};
+
+export default useSilenceTools;
@@ -1,6 +1,29 @@
-import { Dispatch, useCallback, useEffect, useState } from "react";
+import {
+  Dispatch,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import toast from "react-hot-toast";
-import { LANGUAGES } from "../constants";
+import {
+  AUDIO_FORMATS,
+  AudioFormat,
+  LANGUAGES,
+  OPENAI_VOICES,
+  TTS_MODELS,
+  TTSModel,
+} from "../constants";
+import { getEditedText } from "../libs/audioEdits";
+import { createAudioUrls, revokeItemUrls } from "../libs/audioUrls";
+import { isAbortError } from "../libs/fetchWithRetry";
+import { parseSpeechMarkup } from "../libs/speechMarkup";
+import {
+  canStreamPlayback,
+  createStreamingPlayback,
+} from "../libs/streamingPlayback";
+import { withWordTimings } from "../libs/wordTimings";
 import {
   LanguageOption,
   TTSHistoryItem,
@@ -10,9 +33,14 @@ import {
   deleteItem,
   loadItems,
 } from "../libs/indexedDBHelpers";
+import { QuotaStatus } from "../services/rateLimit/types";
+import { TTSResponseError, readErrorResponse } from "../services/tts/errors";
+import { TTSProviderInfo } from "../services/tts/types";
+import { getVoicesForLanguage, resolveVoice } from "../services/tts/voices";
+import { normalizeAudio } from "./useAudioProcessing";
 
 // Database configuration
-const DB_CONFIG = {
+export const DB_CONFIG = {
   dbName: "ttsDatabase",
   storeNames: ["ttsHistory", "ttsSettings"] as string[],
   dbVersion: 2, // Increment version to trigger schema update
@@ -23,14 +51,26 @@ interface TTSState {
   language: string;
   text: string;
   isOptimizeWithAI: boolean;
+  isMarkup: boolean;
   voice: string;
+  provider: string;
+  speed: number;
+  model: TTSModel;
+  format: AudioFormat;
+  normalizeLufs: number; // 0 leaves the level alone
 }
 
 interface TTSControls {
   setLanguage: Dispatch<React.SetStateAction<string>>;
   setText: Dispatch<React.SetStateAction<string>>;
   setIsOptimizeWithAI: Dispatch<React.SetStateAction<boolean>>;
+  setIsMarkup: (isMarkup: boolean) => void;
   setVoice: Dispatch<React.SetStateAction<string>>;
+  setProvider: (provider: string) => void;
+  setSpeed: (speed: number) => void;
+  setModel: (model: TTSModel) => void;
+  setFormat: (format: AudioFormat) => void;
+  setNormalizeLufs: (normalizeLufs: number) => void;
 }
 
 interface TTSHistory {
@@ -38,16 +78,24 @@ interface TTSHistory {
   setHistory: Dispatch<React.SetStateAction<TTSHistoryItem[]>>;
   clearAllHistory: () => Promise<void>;
   deleteHistoryItem: (id: string) => Promise<void>;
+  saveHistoryItem: (item: TTSHistoryItem) => Promise<TTSHistoryItem>;
+  saveEditedVersions: (
+    sourceId: string,
+    audioBinaries: ArrayBuffer[]
+  ) => Promise<void>;
 }
 
 interface TTSAudio {
   audioUrl: string | null;
+  currentItem: TTSHistoryItem | null;
   isLoading: boolean;
+  isStreaming: boolean;
   generateSpeech: (
     text: string,
     isOptimizeWithAI: boolean,
     voice: string
   ) => Promise<void>;
+  cancelGeneration: () => void;
 }
 
 interface UseTextToSpeechResult
@@ -56,21 +104,50 @@ interface UseTextToSpeechResult
     TTSHistory,
     TTSAudio {
   languages: LanguageOption[];
+  providers: TTSProviderInfo[];
+  voices: Record<string, string>;
+  models: Record<string, string>;
+  formats: Record<string, string>;
+  quota: QuotaStatus | null;
+  refreshQuota: () => Promise<void>;
 }
 
+// Used until the provider list has been fetched from the API
+const FALLBACK_PROVIDER: TTSProviderInfo = {
+  id: "openai",
+  name: "OpenAI",
+  voices: OPENAI_VOICES,
+  defaultVoice: "alloy",
+  models: ["standard", "hd"],
+  formats: ["mp3", "opus", "aac", "flac", "wav", "pcm"],
+};
+
 const useTextToSpeech = (): UseTextToSpeechResult => {
   // Group related states
   const [state, setState] = useState<TTSState>({
     language: "en",
     text: "",
     isOptimizeWithAI: false,
+    isMarkup: false,
     voice: "alloy",
+    provider: FALLBACK_PROVIDER.id,
+    speed: 1,
+    model: "standard",
+    format: "mp3",
+    normalizeLufs: 0,
   });
 
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [currentItem, setCurrentItem] = useState<TTSHistoryItem | null>(null);
   const [history, setHistory] = useState<TTSHistoryItem[]>([]);
+  const [providers, setProviders] = useState<TTSProviderInfo[]>([
+    FALLBACK_PROVIDER,
+  ]);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [isInitializing, setIsInitializing] = useState(true);
+  const streamUrlRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     console.log("Voice setting:", state.voice);
@@ -109,6 +186,132 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
     }));
   }, []);
 
+  const setIsMarkup = useCallback((isMarkup: boolean) => {
+    setState((prev) => ({ ...prev, isMarkup }));
+  }, []);
+
+  const setSpeed = useCallback((speed: number) => {
+    setState((prev) => ({ ...prev, speed }));
+  }, []);
+
+  const setModel = useCallback((model: TTSModel) => {
+    setState((prev) => ({ ...prev, model }));
+  }, []);
+
+  const setFormat = useCallback((format: AudioFormat) => {
+    setState((prev) => ({ ...prev, format }));
+  }, []);
+
+  const setNormalizeLufs = useCallback((normalizeLufs: number) => {
+    setState((prev) => ({ ...prev, normalizeLufs }));
+  }, []);
+
+  // Switching provider keeps the voice only if the new provider has it
+  const setProvider = useCallback(
+    (providerId: string) => {
+      const nextProvider = providers.find((item) => item.id === providerId);
+      if (!nextProvider) return;
+
+      setState((prev) => ({
+        ...prev,
+        provider: providerId,
+        voice: resolveVoice(nextProvider, prev.voice, prev.language),
+      }));
+    },
+    [providers]
+  );
+
+  const activeProvider = useMemo(
+    () =>
+      providers.find((item) => item.id === state.provider) || FALLBACK_PROVIDER,
+    [providers, state.provider]
+  );
+
+  // Voices of the active provider that fit the selected language
+  const voices = useMemo(
+    () => getVoicesForLanguage(activeProvider, state.language),
+    [activeProvider, state.language]
+  );
+
+  const models = useMemo(
+    () =>
+      Object.fromEntries(
+        activeProvider.models.map((model) => [model, TTS_MODELS[model]])
+      ),
+    [activeProvider]
+  );
+
+  const formats = useMemo(
+    () =>
+      Object.fromEntries(
+        activeProvider.formats.map((format) => [
+          format,
+          AUDIO_FORMATS[format].label,
+        ])
+      ),
+    [activeProvider]
+  );
+
+  // Keep the selected voice, model and format valid when the language or
+  // provider changes
+  useEffect(() => {
+    if (isInitializing) return;
+    if (!(state.voice in voices)) {
+      setVoice(resolveVoice(activeProvider, state.voice, state.language));
+    }
+    if (!activeProvider.models.includes(state.model)) {
+      setModel(activeProvider.models[0]);
+    }
+    if (!activeProvider.formats.includes(state.format)) {
+      setFormat(activeProvider.formats[0]);
+    }
+  }, [
+    activeProvider,
+    isInitializing,
+    setFormat,
+    setModel,
+    setVoice,
+    state.format,
+    state.language,
+    state.model,
+    state.voice,
+    voices,
+  ]);
+
+  // Remaining rate limit and daily quota for this client
+  const refreshQuota = useCallback(async () => {
+    try {
+      const response = await fetch("/api/text-to-speech/quota");
+      if (response.ok) {
+        setQuota((await response.json()) as QuotaStatus);
+      }
+    } catch (error) {
+      console.error("Failed to load quota:", error);
+    }
+  }, []);
+
+  // Items saved before transcripts existed get their timings once, one at
+  // a time so decoding does not hold up the page
+  const backfillWordTimings = async (items: TTSHistoryItem[]) => {
+    for (const item of items) {
+      if (item.timings || item.audioBinary.byteLength === 0) continue;
+
+      const { timings } = await withWordTimings(item);
+      if (!timings) continue;
+
+      try {
+        await addItem(DB_CONFIG, "ttsHistory", { ...item, timings });
+        setHistory((prev) =>
+          prev.map((entry) =>
+            entry.id === item.id ? { ...entry, timings } : entry
+          )
+        );
+      } catch (error) {
+        console.error("Failed to store word timings:", error);
+      }
+    }
+  };
+
   // Initialize database and load data
   useEffect(() => {
     const initializeApp = async () => {
@@ -123,11 +326,16 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
         const processedItems = historyItems
           .map((item) => ({
             ...item,
-            audioUrl: URL.createObjectURL(new Blob([item.audioBinary])),
+            ...createAudioUrls(item.audioBinary, item.format),
+            stems: item.stems?.map((stem) => ({
+              ...stem,
+              ...createAudioUrls(stem.audioBinary, item.format),
+            })),
           }))
           .sort((a, b) => b.timestamp - a.timestamp);
 
         setHistory(processedItems);
+        backfillWordTimings(historyItems);
 
         // Load settings
         const settings = await loadItems<TTSSettings>(
@@ -143,9 +351,43 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
             language: loadedSettings.language,
             text: loadedSettings.text,
             isOptimizeWithAI: loadedSettings.isOptimizeWithAI,
+            isMarkup: loadedSettings.isMarkup ?? prev.isMarkup,
             voice: loadedSettings.voice,
+            provider: loadedSettings.provider || prev.provider,
+            speed: loadedSettings.speed || prev.speed,
+            model: loadedSettings.model || prev.model,
+            format: loadedSettings.format || prev.format,
+            normalizeLufs: loadedSettings.normalizeLufs ?? prev.normalizeLufs,
           }));
         }
+
+        // Load the providers configured on the server
+        const response = await fetch("/api/text-to-speech");
+        if (response.ok) {
+          const { providers: availableProviders, defaultProvider } =
+            (await response.json()) as {
+              providers: TTSProviderInfo[];
+              defaultProvider: string;
+            };
+
+          if (availableProviders.length > 0) {
+            setProviders(availableProviders);
+            setState((prev) => {
+              const activeProvider =
+                availableProviders.find((item) => item.id === prev.provider) ||
+                availableProviders.find(
+                  (item) => item.id === defaultProvider
+                ) ||
+                availableProviders[0];
+
+              return {
+                ...prev,
+                provider: activeProvider.id,
+                voice: resolveVoice(activeProvider, prev.voice, prev.language),
+              };
+            });
+          }
+        }
       } catch (error) {
         console.error("Failed to initialize:", error);
         toast.error("Failed to load saved settings and history");
@@ -155,14 +397,12 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
     };
 
     initializeApp();
+    refreshQuota();
 
     // Cleanup object URLs
     return () => {
-      history.forEach((item) => {
-        if (item.audioUrl) {
-          URL.revokeObjectURL(item.audioUrl);
-        }
-      });
+      history.forEach(revokeItemUrls);
+      abortControllerRef.current?.abort();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -179,7 +419,13 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
         language: state.language,
         text: state.text,
         isOptimizeWithAI: state.isOptimizeWithAI,
+        isMarkup: state.isMarkup,
         voice: state.voice,
+        provider: state.provider,
+        speed: state.speed,
+        model: state.model,
+        format: state.format,
+        normalizeLufs: state.normalizeLufs,
       });
     } catch (error) {
       console.error("Failed to save settings:", error);
@@ -192,6 +438,50 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
     saveSettings();
   }, [state, saveSettings]);
 
+  // Release the MediaSource URL once the player no longer uses it
+  useEffect(() => {
+    if (
+      streamUrlRef.current &&
+      currentItem?.audioUrl !== streamUrlRef.current
+    ) {
+      URL.revokeObjectURL(streamUrlRef.current);
+      streamUrlRef.current = null;
+    }
+  }, [currentItem]);
+
+  // Stores a synthesized clip and shows it at the top of the history
+  const saveHistoryItem = useCallback(async (item: TTSHistoryItem) => {
+    const savedItem = item.timings ? item : await withWordTimings(item);
+    await addItem(DB_CONFIG, "ttsHistory", savedItem);
+    setHistory((prev) => [savedItem, ...prev]);
+    return savedItem;
+  }, []);
+
+  // Saves waveform editor output as new clips above the original
+  const saveEditedVersions = useCallback(
+    async (sourceId: string, audioBinaries: ArrayBuffer[]) => {
+      const source = history.find((item) => item.id === sourceId);
+      if (!source) return;
+
+      const timestamp = Date.now();
+      // Newest first, so parts are saved in reverse to read in order
+      for (let index = audioBinaries.length - 1; index >= 0; index--) {
+        await saveHistoryItem({
+          id: `${timestamp}-${index}`,
+          text: getEditedText(source.text, index, audioBinaries.length),
+          ...createAudioUrls(audioBinaries[index], "wav"),
+          audioBinary: audioBinaries[index],
+          timestamp: timestamp + audioBinaries.length - 1 - index,
+          format: "wav",
+          isMarkup: source.isMarkup,
+          editedFrom: sourceId,
+        });
+      }
+      toast.success("Edited audio saved");
+    },
+    [history, saveHistoryItem]
+  );
+
   // Speech generation
   const generateSpeech = useCallback(
     async (text: string, isOptimizeWithAI: boolean, voice: string) => {
@@ -200,12 +490,28 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
         return;
       }
 
+      if (state.isMarkup) {
+        const { errors } = parseSpeechMarkup(text, {
+          voices: Object.keys(activeProvider.voices),
+        });
+        if (errors.length > 0) {
+          toast.error(`Fix the markup first: ${errors[0].message}`);
+          return;
+        }
+      }
+
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       setIsLoading(true);
-      setAudioUrl(null);
+      setCurrentItem(null);
 
       try {
+        const { format } = state;
         const blob = await fetch("/api/text-to-speech", {
           method: "POST",
+          signal: abortController.signal,
           headers: {
             "Content-Type": "application/json",
           },
@@ -213,41 +519,124 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
             text,
             language: state.language,
             isOptimizeWithAI,
+            markup: state.isMarkup,
             voice,
+            provider: state.provider,
+            speed: state.speed,
+            model: state.model,
+            format,
           }),
         });
 
-        if (blob) {
-          const arrayBuffer = await blob.arrayBuffer();
-          const audioUrl = URL.createObjectURL(new Blob([arrayBuffer]));
+        if (!blob.ok) {
+          throw await readErrorResponse(blob);
+        }
 
-          const newItem: TTSHistoryItem = {
-            id: Date.now().toString(),
+        const id = Date.now().toString();
+        const mimeType =
+          blob.headers.get("Content-Type") || AUDIO_FORMATS[format].mimeType;
+        let arrayBuffer: ArrayBuffer;
+        let streamUrl: string | null = null;
+
+        // Play while downloading where the browser supports it
+        if (blob.body && canStreamPlayback(mimeType)) {
+          const playback = createStreamingPlayback(blob.body, mimeType);
+          streamUrl = playback.url;
+          streamUrlRef.current = streamUrl;
+          setCurrentItem({
+            id,
             text,
-            audioUrl,
-            audioBinary: arrayBuffer,
+            audioUrl: playback.url,
+            audioBinary: new ArrayBuffer(0),
             timestamp: Date.now(),
-          };
+            format,
+          });
+          setIsStreaming(true);
+          setIsLoading(false);
+
+          arrayBuffer = await playback.completed;
+        } else {
+          arrayBuffer = await blob.arrayBuffer();
+        }
 
+        const newItem: TTSHistoryItem = {
+          id,
+          text,
+          ...createAudioUrls(arrayBuffer, format),
+          audioBinary: arrayBuffer,
+          timestamp: Date.now(),
+          format,
+          isMarkup: state.isMarkup,
+        };
+
+        // A streamed item keeps playing from the MediaSource; the stored
+        // copy is used for downloads
+        const toPlayingItem = (item: TTSHistoryItem) =>
+          streamUrl
+            ? { ...item, audioUrl: streamUrl, downloadUrl: item.audioUrl }
+            : item;
+
+        try {
+          setCurrentItem(toPlayingItem(await saveHistoryItem(newItem)));
+        } catch (error) {
+          console.error("Failed to save history item:", error);
+          setCurrentItem(toPlayingItem(newItem)); // Still set audio URL for playback
+        }
+
+        // Raw PCM has no header for the browser to decode it by
+        if (state.normalizeLufs !== 0 && format !== "pcm") {
           try {
-            await addItem(DB_CONFIG, "ttsHistory", newItem);
-            setHistory((prev) => [newItem, ...prev]);
-            setAudioUrl(audioUrl);
+            const normalized = await normalizeAudio(
+              arrayBuffer,
+              state.normalizeLufs
+            );
+            await saveHistoryItem({
+              id: `${Date.now()}-0`,
+              text,
+              ...createAudioUrls(normalized, "wav"),
+              audioBinary: normalized,
+              timestamp: Date.now(),
+              format: "wav",
+              isMarkup: state.isMarkup,
+              editedFrom: id,
+            });
           } catch (error) {
-            console.error("Failed to save history item:", error);
-            setAudioUrl(audioUrl); // Still set audio URL for playback
+            console.error("Failed to normalize loudness:", error);
+            toast.error("Failed to normalize loudness");
           }
         }
       } catch (error) {
+        if (isAbortError(error)) {
+          // A newer generation replaced this one; leave its state alone
+          if (abortControllerRef.current !== abortController) return;
+          toast("Speech generation cancelled");
+          setCurrentItem(null);
+          return;
+        }
+
         console.error("Error generating TTS:", error);
-        toast.error("Failed to generate speech");
+        toast.error(
+          error instanceof TTSResponseError
+            ? error.message
+            : "Failed to generate speech"
+        );
+        setCurrentItem(null);
       } finally {
-        setIsLoading(false);
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+          setIsStreaming(false);
+        }
+        refreshQuota();
       }
     },
-    [state.language]
+    [state, activeProvider, refreshQuota, saveHistoryItem]
   );
 
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   // History management
   const deleteHistoryItem = useCallback(
     async (id: string) => {
@@ -258,15 +647,15 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
 
       try {
         const itemToDelete = history.find((item) => item.id === id);
-        if (itemToDelete?.audioUrl) {
-          URL.revokeObjectURL(itemToDelete.audioUrl);
+        if (itemToDelete) {
+          revokeItemUrls(itemToDelete);
         }
 
         await deleteItem(DB_CONFIG, "ttsHistory", id);
         setHistory((prev) => prev.filter((item) => item.id !== id));
 
-        if (itemToDelete?.audioUrl === audioUrl) {
-          setAudioUrl(null);
+        if (itemToDelete?.id === currentItem?.id) {
+          setCurrentItem(null);
         }
 
         toast.success("Speech item successfully removed");
@@ -275,20 +664,16 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
         toast.error("Error attempting to delete history entry");
       }
     },
-    [history, audioUrl]
+    [history, currentItem]
   );
 
   const clearAllHistory = useCallback(async () => {
     try {
-      history.forEach((item) => {
-        if (item.audioUrl) {
-          URL.revokeObjectURL(item.audioUrl);
-        }
-      });
+      history.forEach(revokeItemUrls);
 
       await clearStore(DB_CONFIG, "ttsHistory");
       setHistory([]);
-      setAudioUrl(null);
+      setCurrentItem(null);
       toast.success("Complete speech history successfully erased");
     } catch (error) {
       console.error("Failed to clear history:", error);
@@ -311,18 +696,37 @@ const useTextToSpeech = (): UseTextToSpeechResult => {
     setLanguage,
     setText,
     setIsOptimizeWithAI,
+    setIsMarkup,
     setVoice,
+    setProvider,
+    setSpeed,
+    setModel,
+    setFormat,
+    setNormalizeLufs,
     // Audio
-    audioUrl,
+    audioUrl: currentItem?.audioUrl ?? null,
+    currentItem,
     isLoading,
+    isStreaming,
     generateSpeech,
+    cancelGeneration,
     // History
     history,
     setHistory,
     clearAllHistory,
     deleteHistoryItem,
+    saveHistoryItem,
+    saveEditedVersions,
     // Languages
     languages,
+    // Providers
+    providers,
+    voices,
+    models,
+    formats,
+    // Quota
+    quota,
+    refreshQuota,
   };
 };
 
@@ -0,0 +1,197 @@
+import { useCallback, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { createAudioUrls } from "../libs/audioUrls";
+import { isAbortError } from "../libs/fetchWithRetry";
+import { TTSHistoryItem } from "../libs/indexedDBHelpers";
+import { Translation } from "../services/translation/types";
+import { TTSResponseError, readErrorResponse } from "../services/tts/errors";
+import { TTSProviderInfo } from "../services/tts/types";
+import { resolveVoice } from "../services/tts/voices";
+import { SynthesisSettings } from "./useBatchSynthesis";
+
+export type TranslationStatus = "queued" | "running" | "done" | "error";
+
+export interface TranslationResult extends Translation {
+  status: TranslationStatus;
+  item?: TTSHistoryItem;
+  error?: string;
+}
+
+interface UseTranslateAndSpeakResult {
+  targetLanguages: string[];
+  setTargetLanguages: (languages: string[]) => void;
+  sourceText: string;
+  results: TranslationResult[];
+  isRunning: boolean;
+  translateAndSpeak: (text: string) => Promise<void>;
+  cancelTranslation: () => void;
+}
+
+/**
+ * Translates the text into each target language and speaks every
+ * translation, one language at a time. Each clip is saved to the history
+ * tagged with its source and target language.
+ */
+const useTranslateAndSpeak = (
+  settings: SynthesisSettings,
+  provider: TTSProviderInfo | undefined,
+  saveHistoryItem: (item: TTSHistoryItem) => Promise<TTSHistoryItem>,
+  onSettled?: () => void
+): UseTranslateAndSpeakResult => {
+  const [targetLanguages, setTargetLanguages] = useState<string[]>([]);
+  const [sourceText, setSourceText] = useState("");
+  const [results, setResults] = useState<TranslationResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateResult = useCallback(
+    (language: string, update: Partial<TranslationResult>) => {
+      setResults((prev) =>
+        prev.map((result) =>
+          result.language === language ? { ...result, ...update } : result
+        )
+      );
+    },
+    []
+  );
+
+  const speak = useCallback(
+    async (
+      text: string,
+      translation: Translation,
+      signal: AbortSignal
+    ): Promise<TTSHistoryItem> => {
+      const response = await fetch("/api/text-to-speech", {
+        method: "POST",
+        signal,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...settings,
+          text: translation.text,
+          language: translation.language,
+          voice: provider
+            ? resolveVoice(provider, settings.voice, translation.language)
+            : settings.voice,
+        }),
+      });
+      if (!response.ok) throw await readErrorResponse(response);
+
+      const audioBinary = await response.arrayBuffer();
+      return saveHistoryItem({
+        id: `${Date.now()}-${translation.language}`,
+        text: translation.text,
+        ...createAudioUrls(audioBinary, settings.format),
+        audioBinary,
+        timestamp: Date.now(),
+        format: settings.format,
+        translation: {
+          sourceLanguage: settings.language,
+          targetLanguage: translation.language,
+          sourceText: text,
+        },
+      });
+    },
+    [settings, provider, saveHistoryItem]
+  );
+
+  const translateAndSpeak = useCallback(
+    async (text: string) => {
+      if (!text.trim()) {
+        toast.error("Text input cannot be empty!");
+        return;
+      }
+      if (targetLanguages.length === 0) {
+        toast.error("Pick at least one target language");
+        return;
+      }
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      setIsRunning(true);
+      setSourceText(text);
+      setResults([]);
+
+      try {
+        const response = await fetch("/api/translate", {
+          method: "POST",
+          signal: abortController.signal,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            text,
+            sourceLanguage: settings.language,
+            targetLanguages,
+          }),
+        });
+        if (!response.ok) throw await readErrorResponse(response);
+
+        const { translations } = (await response.json()) as {
+          translations: Translation[];
+        };
+        setResults(
+          translations.map((translation) => ({
+            ...translation,
+            status: "queued",
+          }))
+        );
+
+        for (const translation of translations) {
+          updateResult(translation.language, { status: "running" });
+          try {
+            const item = await speak(text, translation, abortController.signal);
+            updateResult(translation.language, { status: "done", item });
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+
+            console.error("Error speaking translation:", error);
+            updateResult(translation.language, {
+              status: "error",
+              error:
+                error instanceof TTSResponseError
+                  ? error.message
+                  : "Failed to generate speech",
+            });
+          }
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          setResults((prev) =>
+            prev.map((result) =>
+              result.status === "done"
+                ? result
+                : { ...result, status: "error", error: "Cancelled" }
+            )
+          );
+          return;
+        }
+
+        console.error("Error translating text:", error);
+        toast.error(
+          error instanceof TTSResponseError
+            ? error.message
+            : "Failed to translate text"
+        );
+      } finally {
+        abortControllerRef.current = null;
+        setIsRunning(false);
+        onSettled?.();
+      }
+    },
+    [settings.language, targetLanguages, speak, updateResult, onSettled]
+  );
+
+  const cancelTranslation = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    targetLanguages,
+    setTargetLanguages,
+    sourceText,
+    results,
+    isRunning,
+    translateAndSpeak,
+    cancelTranslation,
+  };
+};
+
+export default useTranslateAndSpeak;
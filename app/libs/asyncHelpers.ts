@@ -0,0 +1,68 @@
+/**
+ * Maps over items with at most `limit` mappers running at once.
+ * Results keep the input order. The first rejection stops scheduling new
+ * items and is re-thrown once the in-flight ones settle.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await mapper(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+};
+
+/**
+ * Like mapWithConcurrency, but hands back one promise per item so callers
+ * can consume results in order while later items are still running. Items
+ * never started because an earlier one failed reject with that failure.
+ */
+export const scheduleWithConcurrency = <T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R>[] => {
+  const settlers = items.map(() => {
+    let resolve: (value: R) => void = () => undefined;
+    let reject: (reason: unknown) => void = () => undefined;
+    const promise = new Promise<R>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Results nobody awaits (e.g. after a cancelled stream) must not surface
+    // as unhandled rejections
+    promise.catch(() => undefined);
+    return { promise, resolve, reject };
+  });
+
+  mapWithConcurrency(items, limit, async (item, index) => {
+    try {
+      const result = await mapper(item, index);
+      settlers[index].resolve(result);
+      return result;
+    } catch (error) {
+      settlers[index].reject(error);
+      throw error;
+    }
+  }).catch((error) => settlers.forEach(({ reject }) => reject(error)));
+
+  return settlers.map(({ promise }) => promise);
+};
@@ -0,0 +1,74 @@
+import { AudioFormat } from "../constants";
+import {
+  concatMp3Buffers,
+  concatUint8Arrays,
+  extractAudioFrames,
+} from "./mp3Helpers";
+import {
+  concatWavBuffers,
+  createWavHeader,
+  parseWavHeader,
+} from "./wavHelpers";
+
+// Data length written into a streamed WAV header, whose real size is not
+// known until the last chunk arrives. Players read until the stream ends.
+const STREAMING_WAV_DATA_LENGTH = 0xffffffff - 44;
+
+// Formats whose separately encoded files can be joined without re-encoding.
+// Ogg Opus and FLAC carry per-file stream headers and cannot.
+export const CONCATENABLE_FORMATS: AudioFormat[] = ["mp3", "aac", "wav", "pcm"];
+
+export const canConcatFormat = (format: AudioFormat) =>
+  CONCATENABLE_FORMATS.includes(format);
+
+export const concatAudioBuffers = (
+  buffers: ArrayBuffer[],
+  format: AudioFormat
+): ArrayBuffer => {
+  if (buffers.length === 1) return buffers[0];
+
+  switch (format) {
+    case "mp3":
+      return concatMp3Buffers(buffers);
+    case "wav":
+      return concatWavBuffers(buffers);
+    case "aac": // ADTS frames are self-contained
+    case "pcm":
+      return concatUint8Arrays(buffers.map((buffer) => new Uint8Array(buffer)))
+        .buffer as ArrayBuffer;
+    default:
+      throw new Error(`Cannot join ${format} audio`);
+  }
+};
+
+/**
+ * Bytes of chunk `index` as they appear in a joined stream, so chunks can be
+ * sent as they finish instead of after all of them are done.
+ */
+export const getStreamSegment = (
+  buffer: ArrayBuffer,
+  format: AudioFormat,
+  index: number
+): Uint8Array => {
+  switch (format) {
+    case "mp3":
+      return concatUint8Arrays(extractAudioFrames(buffer));
+    case "wav": {
+      const info = parseWavHeader(buffer);
+      if (!info) throw new Error("Invalid WAV data");
+
+      const data = new Uint8Array(buffer, info.dataOffset, info.dataLength);
+      if (index > 0) return data;
+
+      return concatUint8Arrays([
+        new Uint8Array(createWavHeader(info, STREAMING_WAV_DATA_LENGTH)),
+        data,
+      ]);
+    }
+    case "aac":
+    case "pcm":
+      return new Uint8Array(buffer);
+    default:
+      throw new Error(`Cannot stream joined ${format} audio`);
+  }
+};
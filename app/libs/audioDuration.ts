@@ -0,0 +1,32 @@
+import { AudioFormat, TTS_CONFIG } from "../constants";
+import { parseWavHeader } from "./wavHelpers";
+
+/**
+ * Playback length of stored audio in seconds. PCM and WAV are measured from
+ * their sizes; compressed formats are decoded, which is exact even for
+ * variable bitrate files where the media element only estimates.
+ */
+export const getAudioDuration = async (
+  audioBinary: ArrayBuffer,
+  format: AudioFormat = "mp3"
+): Promise<number> => {
+  if (format === "pcm") {
+    return audioBinary.byteLength / (TTS_CONFIG.PCM_SAMPLE_RATE * 2);
+  }
+
+  const wav = format === "wav" ? parseWavHeader(audioBinary) : null;
+  if (wav) {
+    const bytesPerSecond =
+      (wav.sampleRate * wav.channels * wav.bitsPerSample) / 8;
+    return wav.dataLength / bytesPerSecond;
+  }
+
+  const context = new AudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given
+    const decoded = await context.decodeAudioData(audioBinary.slice(0));
+    return decoded.duration;
+  } finally {
+    context.close();
+  }
+};
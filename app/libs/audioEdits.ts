@@ -0,0 +1,175 @@
+// Non-destructive edit model for the waveform editor. Edits are kept as a
+// list and replayed onto the untouched source, so undo is just a shorter list.
+
+export type AudioEdit =
+  | { type: "trim"; start: number; end: number } // Keep only the range
+  | { type: "cut"; start: number; end: number } // Remove the range
+  | { type: "fadeIn"; start: number; end: number }
+  | { type: "fadeOut"; start: number; end: number };
+
+// A stretch of the source audio, in source seconds
+export interface Segment {
+  start: number;
+  end: number;
+}
+
+// A gain ramp, in timeline seconds
+export interface Fade {
+  type: "in" | "out";
+  start: number;
+  end: number;
+}
+
+export interface EditTimeline {
+  segments: Segment[];
+  fades: Fade[];
+}
+
+// Ranges shorter than this are dropped rather than rendered as clicks
+const MIN_LENGTH = 0.001;
+
+// Label for a saved edit; splits produce numbered parts
+export const getEditedText = (text: string, index: number, count: number) =>
+  count > 1 ? `${text} (part ${index + 1})` : `${text} (edited)`;
+
+export const getTimelineDuration = ({ segments }: EditTimeline) =>
+  segments.reduce((sum, { start, end }) => sum + (end - start), 0);
+
+const cutRange = (
+  timeline: EditTimeline,
+  cutStart: number,
+  cutEnd: number
+): EditTimeline => {
+  const segments: Segment[] = [];
+  let offset = 0;
+
+  timeline.segments.forEach(({ start, end }) => {
+    const length = end - start;
+    if (offset < cutStart) {
+      segments.push({
+        start,
+        end: start + Math.min(length, cutStart - offset),
+      });
+    }
+    if (offset + length > cutEnd) {
+      segments.push({ start: start + Math.max(0, cutEnd - offset), end });
+    }
+    offset += length;
+  });
+
+  const removed = cutEnd - cutStart;
+  const mapTime = (time: number) =>
+    time < cutStart ? time : time > cutEnd ? time - removed : cutStart;
+
+  return {
+    segments: segments.filter(({ start, end }) => end - start >= MIN_LENGTH),
+    fades: timeline.fades
+      .map((fade) => ({
+        ...fade,
+        start: mapTime(fade.start),
+        end: mapTime(fade.end),
+      }))
+      .filter(({ start, end }) => end - start >= MIN_LENGTH),
+  };
+};
+
+export const applyEdit = (
+  timeline: EditTimeline,
+  edit: AudioEdit
+): EditTimeline => {
+  const duration = getTimelineDuration(timeline);
+  const start = Math.max(0, Math.min(edit.start, edit.end));
+  const end = Math.min(duration, Math.max(edit.start, edit.end));
+  if (end - start < MIN_LENGTH) return timeline;
+
+  switch (edit.type) {
+    case "cut":
+      return cutRange(timeline, start, end);
+    case "trim":
+      return cutRange(cutRange(timeline, end, duration), 0, start);
+    case "fadeIn":
+      return {
+        ...timeline,
+        fades: [...timeline.fades, { type: "in", start, end }],
+      };
+    case "fadeOut":
+      return {
+        ...timeline,
+        fades: [...timeline.fades, { type: "out", start, end }],
+      };
+  }
+};
+
+export const applyEdits = (duration: number, edits: AudioEdit[]) =>
+  edits.reduce(applyEdit, {
+    segments: [{ start: 0, end: duration }],
+    fades: [],
+  } as EditTimeline);
+
+/**
+ * Renders the timeline through an OfflineAudioContext. Each fade gets its own
+ * gain node so overlapping fades multiply instead of fighting over one
+ * automation curve.
+ */
+export const renderTimeline = async (
+  source: AudioBuffer,
+  timeline: EditTimeline
+): Promise<AudioBuffer> => {
+  const duration = getTimelineDuration(timeline);
+  const context = new OfflineAudioContext(
+    source.numberOfChannels,
+    Math.max(1, Math.round(duration * source.sampleRate)),
+    source.sampleRate
+  );
+
+  const output = timeline.fades.reduce<AudioNode>((next, fade) => {
+    const gain = context.createGain();
+    if (fade.type === "in") {
+      gain.gain.setValueAtTime(0, fade.start);
+      gain.gain.linearRampToValueAtTime(1, fade.end);
+    } else {
+      gain.gain.setValueAtTime(1, fade.start);
+      gain.gain.linearRampToValueAtTime(0, fade.end);
+      // Only the selected range fades; the audio after it plays as before
+      gain.gain.setValueAtTime(1, fade.end);
+    }
+    gain.connect(next);
+    return gain;
+  }, context.destination);
+
+  let when = 0;
+  timeline.segments.forEach(({ start, end }) => {
+    const node = context.createBufferSource();
+    node.buffer = source;
+    node.connect(output);
+    node.start(when, start, end - start);
+    when += end - start;
+  });
+
+  return context.startRendering();
+};
+
+/**
+ * Largest absolute sample across channels for each of `bins` equal slices,
+ * for drawing a waveform.
+ */
+export const getWaveformPeaks = (buffer: AudioBuffer, bins: number) => {
+  const peaks = new Float32Array(bins);
+  const samplesPerBin = buffer.length / bins;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let bin = 0; bin < bins; bin++) {
+      const from = Math.floor(bin * samplesPerBin);
+      const to = Math.min(data.length, Math.floor((bin + 1) * samplesPerBin));
+      let peak = peaks[bin];
+      for (let index = from; index < to; index++) {
+        const value = Math.abs(data[index]);
+        if (value > peak) peak = value;
+      }
+      peaks[bin] = peak;
+    }
+  }
+
+  return peaks;
+};
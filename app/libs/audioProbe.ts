@@ -0,0 +1,202 @@
+// Content sniffing and metadata probing for uploaded audio files.
+
+import { parseWavHeader } from "./wavHelpers";
+
+export const CONTAINER_FORMATS = {
+  mp3: { label: "MP3", mimeType: "audio/mpeg", extension: "mp3" },
+  aac: { label: "AAC", mimeType: "audio/aac", extension: "aac" },
+  wav: { label: "WAV", mimeType: "audio/wav", extension: "wav" },
+  ogg: { label: "Ogg", mimeType: "audio/ogg", extension: "ogg" },
+  flac: { label: "FLAC", mimeType: "audio/flac", extension: "flac" },
+  webm: { label: "WebM", mimeType: "audio/webm", extension: "webm" },
+  mp4: { label: "M4A", mimeType: "audio/mp4", extension: "m4a" },
+};
+
+export type ContainerFormat = keyof typeof CONTAINER_FORMATS;
+
+export interface AudioMetadata {
+  format: ContainerFormat;
+  duration: number; // Seconds
+  sampleRate: number;
+  channels: number;
+}
+
+interface StreamInfo {
+  sampleRate: number;
+  channels: number;
+}
+
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  offset + length > bytes.length
+    ? ""
+    : String.fromCharCode(
+        ...Array.from(bytes.subarray(offset, offset + length))
+      );
+
+const indexOfAscii = (bytes: Uint8Array, text: string, from = 0) => {
+  const first = text.charCodeAt(0);
+  for (let index = from; index <= bytes.length - text.length; index++) {
+    if (
+      bytes[index] === first &&
+      readAscii(bytes, index, text.length) === text
+    ) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// ID3v2 tags precede MP3 and ADTS streams; their size is a synchsafe integer
+const skipId3 = (bytes: Uint8Array) => {
+  if (readAscii(bytes, 0, 3) !== "ID3" || bytes.length < 10) return 0;
+  return (
+    10 +
+    ((bytes[6] & 0x7f) << 21) +
+    ((bytes[7] & 0x7f) << 14) +
+    ((bytes[8] & 0x7f) << 7) +
+    (bytes[9] & 0x7f)
+  );
+};
+
+const isFrameSync = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0;
+
+/**
+ * Identifies the container from its leading bytes. The browser's MIME guess
+ * comes from the file extension, so it is not trusted. Returns null when the
+ * bytes match no supported format.
+ */
+export const detectAudioFormat = (
+  buffer: ArrayBuffer
+): ContainerFormat | null => {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64));
+
+  if (readAscii(bytes, 0, 4) === "RIFF" && readAscii(bytes, 8, 4) === "WAVE") {
+    return "wav";
+  }
+  if (readAscii(bytes, 0, 4) === "OggS") return "ogg";
+  if (readAscii(bytes, 0, 4) === "fLaC") return "flac";
+  if (readAscii(bytes, 4, 4) === "ftyp") return "mp4";
+  if (
+    bytes[0] === 0x1a &&
+    bytes[1] === 0x45 &&
+    bytes[2] === 0xdf &&
+    bytes[3] === 0xa3
+  ) {
+    return "webm";
+  }
+
+  const start = skipId3(bytes);
+  if (start + 4 > buffer.byteLength) return null;
+  const frame = new Uint8Array(buffer, start, 4);
+  if (isFrameSync(frame, 0)) {
+    // ADTS shares the sync word but always has layer bits 00
+    return (frame[1] & 0x06) === 0 ? "aac" : "mp3";
+  }
+
+  return null;
+};
+
+// Sample rates read from the stream headers. Decoding resamples to the
+// AudioContext rate, so it cannot tell us the file's own rate.
+const readStreamInfo = (
+  buffer: ArrayBuffer,
+  format: ContainerFormat
+): StreamInfo | null => {
+  const bytes = new Uint8Array(buffer);
+
+  switch (format) {
+    case "wav": {
+      const wav = parseWavHeader(buffer);
+      return wav && { sampleRate: wav.sampleRate, channels: wav.channels };
+    }
+    case "flac": {
+      // STREAMINFO is always the first metadata block
+      if (bytes.length < 22) return null;
+      return {
+        sampleRate: (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4),
+        channels: ((bytes[20] >> 1) & 0x07) + 1,
+      };
+    }
+    case "mp3": {
+      const offset = skipId3(bytes);
+      if (!isFrameSync(bytes, offset)) return null;
+      const version = (bytes[offset + 1] >> 3) & 0x03;
+      const sampleRate =
+        MPEG_SAMPLE_RATES[version]?.[(bytes[offset + 2] >> 2) & 0x03];
+      return sampleRate
+        ? { sampleRate, channels: bytes[offset + 3] >> 6 === 3 ? 1 : 2 }
+        : null;
+    }
+    case "ogg": {
+      // The first page holds the codec's identification header
+      const view = new DataView(buffer);
+      const opus = indexOfAscii(bytes.subarray(0, 512), "OpusHead");
+      if (opus >= 0 && opus + 16 <= bytes.length) {
+        return {
+          sampleRate: view.getUint32(opus + 12, true) || 48000,
+          channels: bytes[opus + 9],
+        };
+      }
+      const vorbis = indexOfAscii(bytes.subarray(0, 512), "vorbis");
+      if (vorbis >= 0 && vorbis + 15 <= bytes.length) {
+        return {
+          sampleRate: view.getUint32(vorbis + 11, true),
+          channels: bytes[vorbis + 10],
+        };
+      }
+      return null;
+    }
+    case "mp4": {
+      // Audio sample entry after its box type: 6 reserved bytes, the data
+      // reference index, 8 reserved bytes, then channel count, sample size,
+      // 4 more bytes and the sample rate as 16.16 fixed point
+      const entry = indexOfAscii(bytes, "mp4a");
+      if (entry < 0 || entry + 32 > bytes.length) return null;
+      const view = new DataView(buffer);
+      return {
+        channels: view.getUint16(entry + 20),
+        sampleRate: view.getUint16(entry + 28),
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Detects the container and decodes the audio to measure it. Throws an
+ * Error with a user-facing message when the file is not audio we can play.
+ */
+export const probeAudio = async (
+  buffer: ArrayBuffer
+): Promise<AudioMetadata> => {
+  const format = detectAudioFormat(buffer);
+  if (!format) throw new Error("Not a recognized audio format");
+
+  const context = new AudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given
+    const decoded = await context.decodeAudioData(buffer.slice(0));
+    const streamInfo = readStreamInfo(buffer, format);
+    return {
+      format,
+      duration: decoded.duration,
+      sampleRate: streamInfo?.sampleRate || decoded.sampleRate,
+      channels: streamInfo?.channels || decoded.numberOfChannels,
+    };
+  } catch (error) {
+    console.error("Failed to decode audio:", error);
+    throw new Error(
+      `Could not decode ${CONTAINER_FORMATS[format].label} audio`
+    );
+  } finally {
+    context.close();
+  }
+};
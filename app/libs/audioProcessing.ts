@@ -0,0 +1,158 @@
+// Loudness normalization and a small cleanup chain for decoded audio.
+
+import { fromDb, measureLoudness } from "./loudness";
+
+export interface ProcessingOptions {
+  targetLufs: number; // 0 leaves the level alone
+  highPass: { enabled: boolean; frequency: number }; // Hz
+  gate: { enabled: boolean; thresholdDb: number };
+  compressor: { enabled: boolean; thresholdDb: number; ratio: number };
+  limiter: { enabled: boolean; ceilingDb: number }; // dBTP
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  targetLufs: -16,
+  highPass: { enabled: false, frequency: 80 },
+  gate: { enabled: false, thresholdDb: -50 },
+  compressor: { enabled: false, thresholdDb: -20, ratio: 3 },
+  limiter: { enabled: true, ceilingDb: -1 },
+};
+
+// Normalizing without the limiter never raises the true peak above this
+const DEFAULT_CEILING_DB = -1;
+const GATE_ATTACK_SECONDS = 0.002;
+const GATE_RELEASE_SECONDS = 0.1;
+
+/**
+ * Runs the buffer through a chain of Web Audio nodes in an
+ * OfflineAudioContext of the same shape.
+ */
+const renderNodes = (
+  buffer: AudioBuffer,
+  createNodes: (context: OfflineAudioContext) => AudioNode[]
+): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    buffer.length,
+    buffer.sampleRate
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  createNodes(context)
+    .reduce<AudioNode>((previous, node) => {
+      previous.connect(node);
+      return node;
+    }, source)
+    .connect(context.destination);
+
+  source.start();
+  return context.startRendering();
+};
+
+const applyGain = (buffer: AudioBuffer, gain: number) => {
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let index = 0; index < data.length; index++) data[index] *= gain;
+  }
+};
+
+/**
+ * Mutes the buffer in place wherever its peak envelope, loudest channel
+ * first, stays under the threshold. The gain opens quickly and closes slowly
+ * so word endings are not clipped.
+ */
+const applyGate = (buffer: AudioBuffer, thresholdDb: number) => {
+  const threshold = fromDb(thresholdDb);
+  const attack = 1 - Math.exp(-1 / (GATE_ATTACK_SECONDS * buffer.sampleRate));
+  const release = 1 - Math.exp(-1 / (GATE_RELEASE_SECONDS * buffer.sampleRate));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index)
+  );
+
+  let envelope = 0;
+  let gain = 0;
+  for (let index = 0; index < buffer.length; index++) {
+    let level = 0;
+    channels.forEach((data) => {
+      level = Math.max(level, Math.abs(data[index]));
+    });
+
+    envelope =
+      level > envelope ? level : envelope + (level - envelope) * release;
+    gain += envelope >= threshold ? (1 - gain) * attack : -gain * release;
+    channels.forEach((data) => {
+      data[index] *= gain;
+    });
+  }
+};
+
+/**
+ * Applies the enabled effects in the usual order: high-pass, gate,
+ * compressor, then normalization into the limiter. Without the limiter the
+ * normalization gain is capped so the true peak stays under -1 dBTP.
+ * Gain stages work in place, so `source` may be modified.
+ */
+export const processBuffer = async (
+  source: AudioBuffer,
+  { targetLufs, highPass, gate, compressor, limiter }: ProcessingOptions
+): Promise<AudioBuffer> => {
+  let buffer = source;
+
+  if (highPass.enabled) {
+    buffer = await renderNodes(buffer, (context) => {
+      const filter = context.createBiquadFilter();
+      filter.type = "highpass";
+      filter.frequency.value = highPass.frequency;
+      return [filter];
+    });
+  }
+
+  if (gate.enabled) applyGate(buffer, gate.thresholdDb);
+
+  if (compressor.enabled) {
+    buffer = await renderNodes(buffer, (context) => {
+      const node = context.createDynamicsCompressor();
+      node.threshold.value = compressor.thresholdDb;
+      node.ratio.value = compressor.ratio;
+      node.knee.value = 6;
+      node.attack.value = 0.01;
+      node.release.value = 0.2;
+      return [node];
+    });
+  }
+
+  const ceilingDb = limiter.enabled ? limiter.ceilingDb : DEFAULT_CEILING_DB;
+  if (targetLufs !== 0) {
+    const { integratedLufs, truePeakDb } = measureLoudness(buffer);
+    // Silence has no loudness to normalize
+    if (isFinite(integratedLufs)) {
+      const gainDb = limiter.enabled
+        ? targetLufs - integratedLufs
+        : Math.min(targetLufs - integratedLufs, ceilingDb - truePeakDb);
+      applyGain(buffer, fromDb(gainDb));
+    }
+  }
+
+  if (limiter.enabled) {
+    buffer = await renderNodes(buffer, (context) => {
+      const node = context.createDynamicsCompressor();
+      node.threshold.value = ceilingDb;
+      node.ratio.value = 20;
+      node.knee.value = 0;
+      node.attack.value = 0.001;
+      node.release.value = 0.05;
+      return [node];
+    });
+
+    // The compressor node is not a brickwall, so trim any overshoot left
+    const { truePeakDb } = measureLoudness(buffer);
+    if (truePeakDb > ceilingDb)
+      applyGain(buffer, fromDb(ceilingDb - truePeakDb));
+  }
+
+  return buffer;
+};
+
+export const formatLoudness = (lufs: number) =>
+  isFinite(lufs) ? `${lufs.toFixed(1)} LUFS` : "silent";
@@ -0,0 +1,180 @@
+// Client-side conversion of stored audio into other formats for download.
+
+import { CONTAINER_FORMATS, detectAudioFormat } from "./audioProbe";
+import { encodeWav } from "./wavHelpers";
+
+export const DOWNLOAD_ENCODINGS = {
+  wav: { label: "WAV", mimeType: "audio/wav", extension: "wav" },
+  webm: {
+    label: "WebM (Opus)",
+    mimeType: "audio/webm;codecs=opus",
+    extension: "webm",
+  },
+  ogg: {
+    label: "Ogg (Opus)",
+    mimeType: "audio/ogg;codecs=opus",
+    extension: "ogg",
+  },
+  mp4: { label: "M4A (AAC)", mimeType: "audio/mp4", extension: "m4a" },
+};
+
+export type DownloadEncoding = keyof typeof DOWNLOAD_ENCODINGS;
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface TranscodeOptions {
+  sampleRate: number; // 0 keeps the source rate
+  channels: number; // 0 keeps the source layout; 1 mixes down to mono
+  bitDepth: WavBitDepth; // WAV only
+}
+
+export const DEFAULT_TRANSCODE_OPTIONS: TranscodeOptions = {
+  sampleRate: 0,
+  channels: 0,
+  bitDepth: 16,
+};
+
+// Slack on top of the audio's duration before real-time encoding gives up
+const ENCODING_TIMEOUT_MARGIN_SECONDS = 10;
+// A blocked context never settles resume(), so stop waiting after this
+const RESUME_TIMEOUT_MS = 2000;
+
+/**
+ * WAV is encoded here; compressed formats go through MediaRecorder, so only
+ * the ones this browser can record are offered.
+ */
+export const getSupportedEncodings = (): DownloadEncoding[] =>
+  (Object.keys(DOWNLOAD_ENCODINGS) as DownloadEncoding[]).filter(
+    (format) =>
+      format === "wav" ||
+      (typeof MediaRecorder !== "undefined" &&
+        MediaRecorder.isTypeSupported(DOWNLOAD_ENCODINGS[format].mimeType))
+  );
+
+/**
+ * The extension of the container the bytes are actually in, or null for
+ * headerless data such as raw PCM.
+ */
+export const getContainerExtension = (audioBinary: ArrayBuffer) => {
+  const format = detectAudioFormat(audioBinary);
+  return format ? CONTAINER_FORMATS[format].extension : null;
+};
+
+const decodeAudio = async (audioBinary: ArrayBuffer) => {
+  const context = new AudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given
+    return await context.decodeAudioData(audioBinary.slice(0));
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Resamples and remixes through an OfflineAudioContext. Web Audio's speaker
+ * rules average the channels when mixing stereo down to mono.
+ */
+const convertBuffer = (
+  buffer: AudioBuffer,
+  { sampleRate, channels }: TranscodeOptions
+): Promise<AudioBuffer> | AudioBuffer => {
+  const targetRate = sampleRate || buffer.sampleRate;
+  const targetChannels = channels || buffer.numberOfChannels;
+  if (
+    targetRate === buffer.sampleRate &&
+    targetChannels === buffer.numberOfChannels
+  ) {
+    return buffer;
+  }
+
+  const context = new OfflineAudioContext(
+    targetChannels,
+    Math.max(1, Math.ceil(buffer.duration * targetRate)),
+    targetRate
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+/**
+ * Plays the buffer into a MediaRecorder, so encoding takes as long as the
+ * audio itself. Rejects when the browser will not start playback, and stops
+ * after the audio's duration plus a margin if playback never ends.
+ */
+const recordBuffer = async (
+  buffer: AudioBuffer,
+  mimeType: string
+): Promise<Blob> => {
+  const context = new AudioContext({ sampleRate: buffer.sampleRate });
+  // Autoplay rules can keep a context created after an await suspended
+  await Promise.race([
+    context.resume(),
+    new Promise((resolve) => setTimeout(resolve, RESUME_TIMEOUT_MS)),
+  ]);
+  if (context.state !== "running") {
+    context.close();
+    throw new Error("Audio playback is blocked, so it cannot be encoded");
+  }
+
+  const destination = context.createMediaStreamDestination();
+  destination.channelCount = buffer.numberOfChannels;
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(destination);
+
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(destination.stream, { mimeType });
+  } catch (error) {
+    // Browsers only allow a few live contexts
+    context.close();
+    throw error;
+  }
+  const chunks: Blob[] = [];
+
+  return new Promise<Blob>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+      context.close();
+      reject(new Error("Encoding did not finish in time"));
+    }, (buffer.duration + ENCODING_TIMEOUT_MARGIN_SECONDS) * 1000);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      clearTimeout(timeout);
+      context.close();
+      resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+    };
+    recorder.onerror = () => {
+      clearTimeout(timeout);
+      recorder.onstop = null;
+      context.close();
+      reject(new Error("Failed to encode audio"));
+    };
+    source.onended = () => recorder.stop();
+
+    recorder.start();
+    source.start();
+  });
+};
+
+export const transcodeAudio = async (
+  audioBinary: ArrayBuffer,
+  format: DownloadEncoding,
+  options: TranscodeOptions
+): Promise<Blob> => {
+  const buffer = await convertBuffer(await decodeAudio(audioBinary), options);
+
+  if (format === "wav") {
+    return new Blob([encodeWav(buffer, options.bitDepth)], {
+      type: DOWNLOAD_ENCODINGS.wav.mimeType,
+    });
+  }
+  return recordBuffer(buffer, DOWNLOAD_ENCODINGS[format].mimeType);
+};
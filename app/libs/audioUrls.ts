@@ -0,0 +1,53 @@
+import { AUDIO_FORMATS, AudioFormat, TTS_CONFIG } from "../constants";
+import { wrapPcmAsWav } from "./wavHelpers";
+
+export interface AudioUrls {
+  audioUrl: string;
+  downloadUrl?: string;
+}
+
+/**
+ * Creates object URLs for stored audio. Browsers cannot play headerless PCM,
+ * so playback gets a WAV wrapper while the download keeps the raw bytes.
+ */
+export const createAudioUrls = (
+  audioBinary: ArrayBuffer,
+  format: AudioFormat = "mp3"
+): AudioUrls => {
+  const blob = new Blob([audioBinary], {
+    type: AUDIO_FORMATS[format].mimeType,
+  });
+
+  if (format !== "pcm") {
+    return { audioUrl: URL.createObjectURL(blob) };
+  }
+
+  const playable = wrapPcmAsWav(audioBinary, {
+    sampleRate: TTS_CONFIG.PCM_SAMPLE_RATE,
+    channels: 1,
+    bitsPerSample: 16,
+  });
+
+  return {
+    audioUrl: URL.createObjectURL(playable),
+    downloadUrl: URL.createObjectURL(blob),
+  };
+};
+
+export const revokeAudioUrls = ({
+  audioUrl,
+  downloadUrl,
+}: Partial<AudioUrls>) => {
+  if (audioUrl) URL.revokeObjectURL(audioUrl);
+  if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+};
+
+/**
+ * Revokes the URLs of a history item and of any stems it carries.
+ */
+export const revokeItemUrls = (
+  item: Partial<AudioUrls> & { stems?: Partial<AudioUrls>[] }
+) => {
+  revokeAudioUrls(item);
+  item.stems?.forEach(revokeAudioUrls);
+};
@@ -0,0 +1,88 @@
+export interface BatchInputItem {
+  text: string;
+  voice?: string;
+}
+
+/**
+ * Splits CSV into rows of fields. Quoted fields may contain commas, line
+ * breaks and doubled quotes.
+ */
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let isQuoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (isQuoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      isQuoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Reads a batch list: CSV when the first line is a header with a `text`
+ * column, alone or next to `voice`, otherwise one item per non-empty line.
+ */
+export const parseBatchInput = (
+  input: string
+): { items: BatchInputItem[]; isCsv: boolean } => {
+  const firstLine = input.trimStart().split(/\r?\n/, 1)[0] || "";
+  const header = parseCsv(firstLine)[0]?.map((name) =>
+    name.trim().toLowerCase()
+  );
+  const textColumn = header?.indexOf("text") ?? -1;
+
+  if (textColumn !== -1) {
+    const voiceColumn = header.indexOf("voice");
+    const items = parseCsv(input.trimStart())
+      .slice(1)
+      .map((row) => ({
+        text: (row[textColumn] || "").trim(),
+        voice:
+          voiceColumn !== -1
+            ? row[voiceColumn]?.trim() || undefined
+            : undefined,
+      }))
+      .filter((item) => item.text);
+
+    return { items, isCsv: true };
+  }
+
+  const items = input
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((text) => ({ text }));
+
+  return { items, isCsv: false };
+};
@@ -0,0 +1,103 @@
+// Dialogue scripts: one turn per line as `Speaker: text`. Lines without a
+// speaker prefix continue the previous turn; blank lines are ignored.
+// Speaker names are a single capitalized word unless the speaker is already
+// known, so prose such as "Note to self: ..." stays in the turn it belongs to.
+
+export interface DialogueTurn {
+  speaker: string;
+  text: string;
+}
+
+export interface DialogueScript {
+  turns: DialogueTurn[];
+  // Voice id per speaker name
+  speakers: Record<string, string>;
+  gapMs: number; // Silence between turns
+}
+
+export interface ScriptError {
+  line: number; // 1-based
+  message: string;
+}
+
+export const DEFAULT_TURN_GAP_MS = 400;
+const TURN_PATTERN = /^([^:\n]{1,40}):\s*(.*)$/;
+const SPEAKER_PATTERN = /^\p{Lu}[\p{L}\p{N}_'.-]*$/u;
+
+/**
+ * Splits a script into turns. `knownSpeakers`, such as voice names and
+ * speakers with a chosen voice, may also have spaces or lowercase letters.
+ */
+export const parseDialogueScript = (
+  input: string,
+  knownSpeakers: string[] = []
+): { turns: DialogueTurn[]; errors: ScriptError[] } => {
+  const turns: DialogueTurn[] = [];
+  const errors: ScriptError[] = [];
+  // Line each turn starts on, for error messages
+  const turnLines: number[] = [];
+
+  input.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const match = line.match(TURN_PATTERN);
+    const speaker = match?.[1].trim() || "";
+    if (
+      match &&
+      (SPEAKER_PATTERN.test(speaker) || knownSpeakers.includes(speaker))
+    ) {
+      turns.push({ speaker, text: match[2].trim() });
+      turnLines.push(index + 1);
+    } else if (turns.length > 0) {
+      const last = turns[turns.length - 1];
+      last.text = last.text ? `${last.text} ${line}` : line;
+    } else {
+      errors.push({
+        line: index + 1,
+        message: "The script must start with `Speaker: text`",
+      });
+    }
+  });
+
+  turns.forEach((turn, index) => {
+    if (!turn.text) {
+      errors.push({
+        line: turnLines[index],
+        message: `${turn.speaker} has nothing to say`,
+      });
+    }
+  });
+
+  return { turns, errors };
+};
+
+export const formatDialogueScript = (turns: DialogueTurn[]): string =>
+  turns.map(({ speaker, text }) => `${speaker}: ${text}`).join("\n");
+
+// Speakers in order of first appearance
+export const getSpeakers = (turns: DialogueTurn[]): string[] =>
+  Array.from(new Set(turns.map(({ speaker }) => speaker)));
+
+/**
+ * Keeps existing assignments and gives new speakers the voices used least so
+ * far, so each speaker sounds different while voices last.
+ */
+export const assignVoices = (
+  speakers: string[],
+  current: Record<string, string>,
+  voices: string[]
+): Record<string, string> =>
+  speakers.reduce<Record<string, string>>((assigned, speaker) => {
+    if (current[speaker] && voices.includes(current[speaker])) {
+      return { ...assigned, [speaker]: current[speaker] };
+    }
+
+    const usage = (voice: string) =>
+      Object.values(assigned).filter((used) => used === voice).length;
+    const voice = voices.reduce(
+      (best, candidate) => (usage(candidate) < usage(best) ? candidate : best),
+      voices[0]
+    );
+    return { ...assigned, [speaker]: voice };
+  }, {});
@@ -0,0 +1,177 @@
+export interface RetryOptions {
+  // Per attempt: time to the response headers, then the longest pause
+  // between body chunks
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A longer Retry-After is not waited out; the response is returned as is
+  maxRetryAfterMs?: number;
+  signal?: AbortSignal;
+  // Decides whether a failed response is worth another attempt
+  shouldRetry?: (response: Response) => boolean | Promise<boolean>;
+}
+
+export class FetchTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Upstream did not respond within ${timeoutMs}ms`);
+    this.name = "FetchTimeoutError";
+  }
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Full jitter: a random delay up to the exponential backoff ceiling
+const getBackoffDelay = (
+  attempt: number,
+  { baseDelayMs, maxDelayMs }: RetryOptions
+) => Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Errors the body with a FetchTimeoutError when no chunk arrives within
+ * `timeoutMs`, aborting the underlying request.
+ */
+const withIdleTimeout = (
+  body: ReadableStream<Uint8Array>,
+  timeoutMs: number,
+  abort: (reason: unknown) => void
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      timer = setTimeout(() => {
+        const error = new FetchTimeoutError(timeoutMs);
+        abort(error);
+        controller.error(error);
+      }, timeoutMs);
+
+      try {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel: (reason) => {
+      clearTimeout(timer);
+      return reader.cancel(reason);
+    },
+  });
+};
+
+/**
+ * fetch with a timeout per attempt and jittered exponential backoff on
+ * network errors, timeouts and retryable statuses. A Retry-After header sets
+ * the minimum wait. Aborting `signal` stops waiting, cancels the in-flight
+ * request and, once the response has arrived, its body.
+ * The last failed response is returned rather than thrown so callers can
+ * build their own error from it.
+ */
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  options: RetryOptions
+): Promise<Response> => {
+  const { signal, retries, timeoutMs } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(
+      () => controller.abort(new FetchTimeoutError(timeoutMs)),
+      timeoutMs
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      signal?.removeEventListener("abort", onAbort);
+      const reason = controller.signal.aborted
+        ? controller.signal.reason
+        : error;
+
+      if (signal?.aborted || attempt >= retries) throw reason;
+      await sleep(getBackoffDelay(attempt, options), signal);
+      continue;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) {
+      if (!response.body) return response;
+
+      const body = withIdleTimeout(response.body, timeoutMs, (reason) =>
+        controller.abort(reason)
+      );
+      return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+
+    signal?.removeEventListener("abort", onAbort);
+
+    const isRetryable =
+      attempt < retries &&
+      RETRYABLE_STATUSES.includes(response.status) &&
+      (!options.shouldRetry || (await options.shouldRetry(response)));
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+
+    if (
+      !isRetryable ||
+      (retryAfter !== undefined &&
+        options.maxRetryAfterMs !== undefined &&
+        retryAfter > options.maxRetryAfterMs)
+    ) {
+      return response;
+    }
+
+    // Free the connection before waiting
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(
+      Math.max(retryAfter ?? 0, getBackoffDelay(attempt, options)),
+      signal
+    );
+  }
+};
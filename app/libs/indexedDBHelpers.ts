@@ -1,6 +1,10 @@
 // src/libs/indexedDBHelpers.ts
 
 import toast from "react-hot-toast";
+import { AudioFormat, TTSModel } from "../constants";
+import { AudioMetadata } from "./audioProbe";
+import { DialogueScript } from "./dialogueScript";
+import { WordTimings } from "./wordTimings";
 
 interface DBConfig {
   dbName: string;
@@ -14,6 +18,30 @@ export interface RecordingItem {
   audioBinary: ArrayBuffer;
   timestamp: number;
   text: string;
+  mimeType?: string;
+  // Set once the recording has been transcribed
+  timings?: WordTimings;
+  language?: string;
+  // Probed from the file contents for uploads
+  metadata?: AudioMetadata;
+  editedFrom?: string; // Id of the recording this was edited from
+}
+
+// Written while recording so an interrupted session can be recovered
+export interface RecordingChunk {
+  id: string; // `${sessionId}-${index}`, zero-padded so ids sort in order
+  sessionId: string;
+  index: number;
+  data: ArrayBuffer;
+  mimeType: string;
+  timestamp: number;
+}
+
+export interface AudioStem {
+  name: string;
+  audioBinary: ArrayBuffer;
+  audioUrl?: string;
+  downloadUrl?: string;
 }
 
 export interface TTSHistoryItem {
@@ -22,6 +50,23 @@ export interface TTSHistoryItem {
   audioUrl: string;
   audioBinary: ArrayBuffer;
   timestamp: number;
+  format?: AudioFormat; // Missing on items saved before formats existed (mp3)
+  downloadUrl?: string;
+  script?: DialogueScript; // Set for dialogue renders so they can be reopened
+  stems?: AudioStem[];
+  isMarkup?: boolean; // Text contains speech markup tags
+  timings?: WordTimings;
+  // Recording this clip was re-voiced from
+  sourceRecording?: { id: string; text: string };
+  // Set when `text` was translated from `sourceText`
+  translation?: TranslationTag;
+  editedFrom?: string; // Id of the clip this was edited from
+}
+
+export interface TranslationTag {
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
 }
 
 export interface TTSSettings {
@@ -30,7 +75,26 @@ export interface TTSSettings {
   speed: number;
   text: string;
   isOptimizeWithAI: boolean;
+  isMarkup?: boolean;
   voice: string;
+  provider?: string;
+  model?: TTSModel;
+  format?: AudioFormat;
+  normalizeLufs?: number; // Save a normalized copy after each generation
+}
+
+export interface RecorderSettings {
+  id: number;
+  deviceId: string; // Empty for the system default microphone
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  sampleRate: number; // 0 lets the device decide
+  channelCount: number;
+  mimeType: string; // Empty for the browser default
+  audioBitsPerSecond: number; // 0 lets the browser decide
+  autoTrimSilence: boolean; // Save a trimmed copy after each recording
+  normalizeLufs: number; // 0 leaves the level alone
 }
 
 export interface LanguageOption {
@@ -130,6 +194,35 @@ export const deleteItem = async (
   }
 };
 
+export const deleteItems = async (
+  config: DBConfig,
+  storeName: string,
+  ids: string[]
+): Promise<void> => {
+  try {
+    const db = await initDB(config);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, "readwrite");
+      const store = transaction.objectStore(storeName);
+
+      ids.forEach((id) => store.delete(id));
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+
+      transaction.onerror = (event) => {
+        console.error(`Error deleting items from ${storeName}:`, event);
+        reject(new Error(`Failed to delete items from ${storeName}`));
+      };
+    });
+  } catch (error) {
+    console.error(`Error deleting items from ${storeName}:`, error);
+    throw error;
+  }
+};
+
 export const loadItems = async <T>(
   config: DBConfig,
   storeName: string,
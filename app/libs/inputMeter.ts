@@ -0,0 +1,70 @@
+// Live level metering of a capture stream through an AnalyserNode.
+
+export interface InputLevel {
+  rms: number; // 0..1
+  peak: number; // 0..1, absolute sample peak since the last update
+  isClipping: boolean; // Peaked at full scale within CLIP_HOLD_MS
+}
+
+export interface InputMeter {
+  stop: () => void;
+}
+
+export const SILENT_LEVEL: InputLevel = { rms: 0, peak: 0, isClipping: false };
+
+// Samples this close to full scale count as clipped
+const CLIP_THRESHOLD = 0.99;
+// Keeps the warning visible long enough to be noticed
+const CLIP_HOLD_MS = 1000;
+const UPDATE_INTERVAL_MS = 50;
+
+/**
+ * Measures `stream` and calls `onLevel` about every UPDATE_INTERVAL_MS until
+ * stopped. The stream's tracks are left running.
+ */
+export const createInputMeter = (
+  stream: MediaStream,
+  onLevel: (level: InputLevel) => void
+): InputMeter => {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let lastClipAt = -Infinity;
+  let lastUpdateAt = 0;
+  let frame = 0;
+
+  const tick = (now: number) => {
+    frame = requestAnimationFrame(tick);
+    if (now - lastUpdateAt < UPDATE_INTERVAL_MS) return;
+    lastUpdateAt = now;
+
+    analyser.getFloatTimeDomainData(samples);
+    let sumOfSquares = 0;
+    let peak = 0;
+    for (let index = 0; index < samples.length; index++) {
+      const value = Math.abs(samples[index]);
+      sumOfSquares += value * value;
+      if (value > peak) peak = value;
+    }
+
+    if (peak >= CLIP_THRESHOLD) lastClipAt = now;
+    onLevel({
+      rms: Math.sqrt(sumOfSquares / samples.length),
+      peak: Math.min(1, peak),
+      isClipping: now - lastClipAt < CLIP_HOLD_MS,
+    });
+  };
+  frame = requestAnimationFrame(tick);
+
+  return {
+    stop: () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    },
+  };
+};
@@ -0,0 +1,185 @@
+// Loudness and true peak measurement after ITU-R BS.1770 / EBU R128.
+
+export interface LoudnessMeasurement {
+  integratedLufs: number; // -Infinity for silence
+  truePeakDb: number; // dBTP
+}
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1; // 75% overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 8; // Per side of each interpolated sample
+
+export const toDb = (value: number) => 20 * Math.log10(value);
+export const fromDb = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * K-weighting for any sample rate: a high shelf modelling the head followed
+ * by the RLB high-pass, with the constants libebur128 uses.
+ */
+const getKWeighting = (sampleRate: number): Biquad[] => {
+  const shelfQ = 0.7071752369554196;
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passQ = 0.5003270373238773;
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b: [
+        (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+        (2 * (shelfK * shelfK - vh)) / shelfA0,
+        (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      ],
+      a: [
+        1,
+        (2 * (shelfK * shelfK - 1)) / shelfA0,
+        (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      ],
+    },
+    {
+      b: [1, -2, 1],
+      a: [
+        1,
+        (2 * (passK * passK - 1)) / passA0,
+        (1 - passK / passQ + passK * passK) / passA0,
+      ],
+    },
+  ];
+};
+
+const applyBiquad = ({ b, a }: Biquad, input: Float32Array) => {
+  const output = new Float32Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+
+  for (let index = 0; index < input.length; index++) {
+    const x = input[index];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    output[index] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+
+  return output;
+};
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Gated integrated loudness over 400ms blocks. All channels are weighted
+ * equally, which is what BS.1770 specifies for mono and stereo.
+ */
+const measureIntegratedLoudness = (buffer: AudioBuffer) => {
+  const stepLength = Math.round(buffer.sampleRate * BLOCK_STEP_SECONDS);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / BLOCK_STEP_SECONDS);
+  const stepCount = Math.floor(buffer.length / stepLength);
+  if (stepCount < stepsPerBlock) return -Infinity;
+
+  // Sums of squares per 100ms step, so each overlapping block adds four
+  const filters = getKWeighting(buffer.sampleRate);
+  const stepPowers = new Float64Array(stepCount);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const weighted = filters.reduce(
+      (signal, filter) => applyBiquad(filter, signal),
+      buffer.getChannelData(channel)
+    );
+    for (let step = 0; step < stepCount; step++) {
+      let sumOfSquares = 0;
+      const end = (step + 1) * stepLength;
+      for (let index = step * stepLength; index < end; index++) {
+        sumOfSquares += weighted[index] * weighted[index];
+      }
+      stepPowers[step] += sumOfSquares;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let step = 0; step + stepsPerBlock <= stepCount; step++) {
+    let sum = 0;
+    for (let offset = 0; offset < stepsPerBlock; offset++) {
+      sum += stepPowers[step + offset];
+    }
+    blockPowers.push(sum / (stepsPerBlock * stepLength));
+  }
+
+  const gatedMean = (threshold: number) => {
+    const kept = blockPowers.filter((power) => toLufs(power) > threshold);
+    return kept.length === 0
+      ? 0
+      : kept.reduce((sum, power) => sum + power, 0) / kept.length;
+  };
+
+  const absoluteMean = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absoluteMean === 0) return -Infinity;
+
+  const relativeMean = gatedMean(toLufs(absoluteMean) + RELATIVE_GATE_LU);
+  return relativeMean === 0 ? -Infinity : toLufs(relativeMean);
+};
+
+// Windowed-sinc taps for each fractional position between two samples
+const getInterpolationPhases = () =>
+  Array.from({ length: OVERSAMPLING - 1 }, (_, phaseIndex) => {
+    const fraction = (phaseIndex + 1) / OVERSAMPLING;
+    return Float32Array.from({ length: INTERPOLATION_TAPS * 2 }, (_, tap) => {
+      const distance = tap - INTERPOLATION_TAPS + 1 - fraction;
+      const sinc = Math.sin(Math.PI * distance) / (Math.PI * distance);
+      const window =
+        0.5 + 0.5 * Math.cos((Math.PI * distance) / (INTERPOLATION_TAPS + 1));
+      return sinc * window;
+    });
+  });
+
+/**
+ * Sample peak of a 4x oversampled signal, which catches the inter-sample
+ * peaks a DAC or lossy encoder would produce.
+ */
+const measureTruePeak = (buffer: AudioBuffer) => {
+  const phases = getInterpolationPhases();
+  const tapCount = INTERPOLATION_TAPS * 2;
+  let peak = 0;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const last = data.length - INTERPOLATION_TAPS;
+
+    for (let index = 0; index < data.length; index++) {
+      const sample = Math.abs(data[index]);
+      if (sample > peak) peak = sample;
+      // The edges have too few neighbours to interpolate from
+      if (index < INTERPOLATION_TAPS - 1 || index >= last) continue;
+
+      const first = index - INTERPOLATION_TAPS + 1;
+      for (const taps of phases) {
+        let value = 0;
+        for (let tap = 0; tap < tapCount; tap++) {
+          value += taps[tap] * data[first + tap];
+        }
+        if (value > peak) peak = value;
+        else if (-value > peak) peak = -value;
+      }
+    }
+  }
+
+  return toDb(peak);
+};
+
+export const measureLoudness = (buffer: AudioBuffer): LoudnessMeasurement => ({
+  integratedLufs: measureIntegratedLoudness(buffer),
+  truePeakDb: measureTruePeak(buffer),
+});
@@ -0,0 +1,182 @@
+// Minimal MPEG audio frame parsing, enough to stitch separately encoded
+// MP3 files into one continuous stream.
+
+export interface Mp3FrameHeader {
+  sampleRate: number;
+  bitrate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number;
+  sideInfoLength: number;
+}
+
+const ID3V2_HEADER_LENGTH = 10;
+const ID3V1_TAG_LENGTH = 128;
+
+const MPEG1_LAYER3_BITRATES = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+];
+const MPEG2_LAYER3_BITRATES = [
+  0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160,
+];
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000], // MPEG 2.5
+  2: [22050, 24000, 16000], // MPEG 2
+  3: [44100, 48000, 32000], // MPEG 1
+};
+
+/**
+ * Parses a Layer III frame header at `offset`, or returns null when the
+ * bytes there are not a valid frame.
+ */
+export const parseFrameHeader = (
+  bytes: Uint8Array,
+  offset: number
+): Mp3FrameHeader | null => {
+  if (offset + 4 > bytes.length) return null;
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const channelMode = bytes[offset + 3] >> 6;
+
+  // Only Layer III is produced by the TTS providers we talk to
+  if (version === 1 || layer !== 1) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = version === 3;
+  const channels = channelMode === 3 ? 1 : 2;
+  const bitrate = (isMpeg1 ? MPEG1_LAYER3_BITRATES : MPEG2_LAYER3_BITRATES)[
+    bitrateIndex
+  ];
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+  const frameLength =
+    Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) + padding;
+  const sideInfoLength = isMpeg1
+    ? channels === 1
+      ? 17
+      : 32
+    : channels === 1
+    ? 9
+    : 17;
+
+  return {
+    sampleRate,
+    bitrate,
+    channels,
+    samplesPerFrame,
+    frameLength,
+    sideInfoLength,
+  };
+};
+
+const readSyncSafeInt = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) |
+  (bytes[offset + 1] << 14) |
+  (bytes[offset + 2] << 7) |
+  bytes[offset + 3];
+
+const hasAscii = (bytes: Uint8Array, offset: number, text: string) =>
+  offset + text.length <= bytes.length &&
+  Array.from(text).every(
+    (char, index) => bytes[offset + index] === char.charCodeAt(0)
+  );
+
+/**
+ * Returns the view of `bytes` without leading ID3v2 and trailing ID3v1 tags.
+ */
+export const stripId3Tags = (bytes: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (
+    hasAscii(bytes, start, "ID3") &&
+    start + ID3V2_HEADER_LENGTH <= bytes.length
+  ) {
+    const hasFooter = (bytes[start + 5] & 0x10) !== 0;
+    start +=
+      ID3V2_HEADER_LENGTH +
+      readSyncSafeInt(bytes, start + 6) +
+      (hasFooter ? ID3V2_HEADER_LENGTH : 0);
+  }
+
+  let end = bytes.length;
+  if (end - start >= ID3V1_TAG_LENGTH && hasAscii(bytes, end - 128, "TAG")) {
+    end -= ID3V1_TAG_LENGTH;
+  }
+
+  return bytes.subarray(Math.min(start, end), end);
+};
+
+/**
+ * Xing/Info/VBRI frames carry the frame count of a single file. Once files
+ * are joined that count is wrong and browsers report a truncated duration,
+ * so these header frames are dropped.
+ */
+const isVbrHeaderFrame = (
+  bytes: Uint8Array,
+  offset: number,
+  header: Mp3FrameHeader
+) => {
+  const xingOffset = offset + 4 + header.sideInfoLength;
+  return (
+    hasAscii(bytes, xingOffset, "Xing") ||
+    hasAscii(bytes, xingOffset, "Info") ||
+    hasAscii(bytes, offset + 36, "VBRI")
+  );
+};
+
+/**
+ * Collects the audio frames of a single MP3 file, skipping tags, VBR header
+ * frames and any junk between frames.
+ */
+export const extractAudioFrames = (buffer: ArrayBuffer): Uint8Array[] => {
+  const bytes = stripId3Tags(new Uint8Array(buffer));
+  const frames: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const header = parseFrameHeader(bytes, offset);
+    if (!header) {
+      offset++;
+      continue;
+    }
+
+    const end = Math.min(offset + header.frameLength, bytes.length);
+    if (!isVbrHeaderFrame(bytes, offset, header)) {
+      frames.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return frames;
+};
+
+export const concatUint8Arrays = (parts: Uint8Array[]): Uint8Array => {
+  const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+
+  return result;
+};
+
+/**
+ * Joins separately synthesized MP3 files into one continuous file.
+ */
+export const concatMp3Buffers = (buffers: ArrayBuffer[]): ArrayBuffer => {
+  if (buffers.length === 1) return buffers[0];
+
+  const joined = concatUint8Arrays(buffers.flatMap(extractAudioFrames));
+  return joined.buffer as ArrayBuffer;
+};
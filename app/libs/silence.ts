@@ -0,0 +1,171 @@
+import { AudioFormat, TTS_CONFIG } from "../constants";
+import { extractAudioFrames, parseFrameHeader } from "./mp3Helpers";
+import { createWavHeader, parseWavHeader } from "./wavHelpers";
+
+const ADTS_HEADER_LENGTH = 7;
+const AAC_SAMPLES_PER_FRAME = 1024;
+const ADTS_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350,
+];
+
+// Raw AAC-LC blocks that decode to one frame of silence, per channel count
+const SILENT_AAC_FRAMES: Record<number, number[]> = {
+  1: [0x00, 0xc8, 0x00, 0x80, 0x23, 0x80],
+  2: [0x21, 0x00, 0x49, 0x90, 0x02, 0x19, 0x00, 0x23, 0x80],
+};
+
+const repeatFrame = (frame: Uint8Array, count: number): ArrayBuffer => {
+  const result = new Uint8Array(frame.length * count);
+  for (let i = 0; i < count; i++) result.set(frame, i * frame.length);
+  return result.buffer;
+};
+
+/**
+ * Silent Layer III frame matching the first frame of `reference`. A frame
+ * whose side info and main data are all zero decodes to silence.
+ */
+const createSilentMp3Frame = (reference: ArrayBuffer) => {
+  const [firstFrame] = extractAudioFrames(reference);
+  if (!firstFrame) throw new Error("Reference MP3 has no audio frames");
+
+  const header = firstFrame.slice(0, 4);
+  header[1] |= 0x01; // No CRC
+  header[2] &= ~0x02; // No padding
+
+  const info = parseFrameHeader(header, 0);
+  if (!info) throw new Error("Invalid MP3 frame header");
+
+  const frame = new Uint8Array(info.frameLength);
+  frame.set(header);
+  return { frame, ...info };
+};
+
+/**
+ * Silent ADTS frame using the sample rate and channels of `reference`.
+ */
+const createSilentAacFrame = (reference: ArrayBuffer) => {
+  const bytes = new Uint8Array(reference);
+  if (bytes.length < ADTS_HEADER_LENGTH || bytes[0] !== 0xff) {
+    throw new Error("Reference AAC is not an ADTS stream");
+  }
+
+  const sampleRate = ADTS_SAMPLE_RATES[(bytes[2] >> 2) & 0x0f];
+  const channels = ((bytes[2] & 0x01) << 2) | (bytes[3] >> 6);
+  const payload = SILENT_AAC_FRAMES[channels];
+  if (!sampleRate || !payload) {
+    throw new Error(`Cannot generate AAC silence for ${channels} channels`);
+  }
+
+  const frameLength = ADTS_HEADER_LENGTH + payload.length;
+  const frame = new Uint8Array(frameLength);
+  frame.set(bytes.subarray(0, 4));
+  frame[1] |= 0x01; // No CRC
+  frame[3] = (frame[3] & 0xfc) | (frameLength >> 11);
+  frame[4] = (frameLength >> 3) & 0xff;
+  frame[5] = ((frameLength & 0x07) << 5) | 0x1f; // Buffer fullness 0x7ff
+  frame[6] = 0xfc; // One raw data block
+  frame.set(payload, ADTS_HEADER_LENGTH);
+
+  return { frame, sampleRate };
+};
+
+// Counts the ADTS frames of an AAC stream by walking their lengths
+const countAacFrames = (audio: ArrayBuffer) => {
+  const bytes = new Uint8Array(audio);
+  let frameCount = 0;
+
+  for (let offset = 0; offset + ADTS_HEADER_LENGTH <= bytes.length; ) {
+    const length =
+      ((bytes[offset + 3] & 0x03) << 11) |
+      (bytes[offset + 4] << 3) |
+      (bytes[offset + 5] >> 5);
+    if (bytes[offset] !== 0xff || length === 0) break;
+
+    frameCount++;
+    offset += length;
+  }
+
+  return frameCount;
+};
+
+/**
+ * Audio of `durationMs` silence in `format`, shaped like `reference` (audio
+ * produced by the same provider settings) so the two can be joined.
+ */
+export const createSilence = (
+  format: AudioFormat,
+  durationMs: number,
+  reference: ArrayBuffer
+): ArrayBuffer => {
+  switch (format) {
+    case "mp3": {
+      const { frame, sampleRate, samplesPerFrame } =
+        createSilentMp3Frame(reference);
+      return repeatFrame(
+        frame,
+        Math.ceil(((durationMs / 1000) * sampleRate) / samplesPerFrame)
+      );
+    }
+    case "aac": {
+      const { frame, sampleRate } = createSilentAacFrame(reference);
+      return repeatFrame(
+        frame,
+        Math.ceil(((durationMs / 1000) * sampleRate) / AAC_SAMPLES_PER_FRAME)
+      );
+    }
+    case "wav": {
+      const info = parseWavHeader(reference);
+      if (!info) throw new Error("Invalid WAV data");
+
+      const blockAlign = (info.channels * info.bitsPerSample) / 8;
+      const dataLength =
+        Math.round((durationMs / 1000) * info.sampleRate) * blockAlign;
+      const result = new Uint8Array(44 + dataLength);
+      result.set(new Uint8Array(createWavHeader(info, dataLength)));
+      return result.buffer;
+    }
+    case "pcm":
+      // 16-bit mono, so two bytes per sample
+      return new ArrayBuffer(
+        Math.round((durationMs / 1000) * TTS_CONFIG.PCM_SAMPLE_RATE) * 2
+      );
+    default:
+      throw new Error(`Cannot generate silence in ${format}`);
+  }
+};
+
+/**
+ * Silence exactly as long as `audio`, e.g. to stand in for a clip in a stem
+ * where another speaker is talking.
+ */
+export const createSilenceLike = (
+  audio: ArrayBuffer,
+  format: AudioFormat
+): ArrayBuffer => {
+  switch (format) {
+    // Frame for frame, so the length matches exactly
+    case "mp3": {
+      const frameCount = extractAudioFrames(audio).length;
+      if (frameCount === 0) return new ArrayBuffer(0);
+      return repeatFrame(createSilentMp3Frame(audio).frame, frameCount);
+    }
+    case "aac":
+      return repeatFrame(
+        createSilentAacFrame(audio).frame,
+        countAacFrames(audio)
+      );
+    case "wav": {
+      const info = parseWavHeader(audio);
+      if (!info) throw new Error("Invalid WAV data");
+
+      const result = new Uint8Array(44 + info.dataLength);
+      result.set(new Uint8Array(createWavHeader(info, info.dataLength)));
+      return result.buffer;
+    }
+    case "pcm":
+      return new ArrayBuffer(audio.byteLength);
+    default:
+      throw new Error(`Cannot generate silence in ${format}`);
+  }
+};
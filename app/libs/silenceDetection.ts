@@ -0,0 +1,127 @@
+// Finds silent stretches in decoded audio and turns them into editor edits.
+
+import { AudioEdit } from "./audioEdits";
+
+export interface SilenceOptions {
+  thresholdDb: number; // Frames quieter than this count as silence
+  minDuration: number; // Seconds; shorter gaps are ordinary pauses
+  keepDuration: number; // Seconds of each long pause kept when shortening
+}
+
+export interface SilentRegion {
+  start: number;
+  end: number;
+}
+
+export interface SilenceAnalysis {
+  duration: number; // Seconds, of the analyzed audio
+  regions: SilentRegion[];
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  thresholdDb: -45,
+  minDuration: 0.5,
+  keepDuration: 0.3,
+};
+
+// 10ms frames are short enough to land cuts between words
+const FRAME_SECONDS = 0.01;
+// Regions closer than this to either end count as leading or trailing
+const EDGE_TOLERANCE = 0.02;
+
+/**
+ * Splits the audio into short frames and reports runs of frames whose RMS,
+ * loudest channel first, stays under the threshold for at least
+ * `minDuration`.
+ */
+export const detectSilence = (
+  buffer: AudioBuffer,
+  { thresholdDb, minDuration }: SilenceOptions
+): SilenceAnalysis => {
+  const frameLength = Math.max(
+    1,
+    Math.round(buffer.sampleRate * FRAME_SECONDS)
+  );
+  const frameCount = Math.ceil(buffer.length / frameLength);
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index)
+  );
+
+  const regions: SilentRegion[] = [];
+  let silenceStart: number | null = null;
+
+  const closeRegion = (frame: number) => {
+    if (silenceStart === null) return;
+    const start = (silenceStart * frameLength) / buffer.sampleRate;
+    const end = Math.min(
+      buffer.duration,
+      (frame * frameLength) / buffer.sampleRate
+    );
+    if (end - start >= minDuration) regions.push({ start, end });
+    silenceStart = null;
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const from = frame * frameLength;
+    const to = Math.min(buffer.length, from + frameLength);
+
+    let loudest = 0;
+    channels.forEach((data) => {
+      let sumOfSquares = 0;
+      for (let index = from; index < to; index++) {
+        sumOfSquares += data[index] * data[index];
+      }
+      loudest = Math.max(loudest, Math.sqrt(sumOfSquares / (to - from)));
+    });
+
+    if (loudest < threshold) {
+      if (silenceStart === null) silenceStart = frame;
+    } else {
+      closeRegion(frame);
+    }
+  }
+  closeRegion(frameCount);
+
+  return { duration: buffer.duration, regions };
+};
+
+/**
+ * A trim that drops silence touching the start and end. Null when there is
+ * nothing to trim or the whole clip is silent.
+ */
+export const getTrimSilenceEdit = ({
+  duration,
+  regions,
+}: SilenceAnalysis): AudioEdit | null => {
+  const leading = regions.find(({ start }) => start <= EDGE_TOLERANCE);
+  const trailing = regions.find(({ end }) => end >= duration - EDGE_TOLERANCE);
+  const start = leading?.end ?? 0;
+  const end = trailing?.start ?? duration;
+
+  if (start >= end || (start === 0 && end === duration)) return null;
+  return { type: "trim", start, end };
+};
+
+/**
+ * Cuts for every pause between the first and last sound, each leaving
+ * `keepDuration` of quiet split across both sides. Listed from the end so
+ * earlier times stay valid as the edits are applied in order.
+ */
+export const getShortenPauseEdits = (
+  { duration, regions }: SilenceAnalysis,
+  { keepDuration }: SilenceOptions
+): AudioEdit[] =>
+  regions
+    .filter(
+      ({ start, end }) =>
+        start > EDGE_TOLERANCE &&
+        end < duration - EDGE_TOLERANCE &&
+        end - start > keepDuration
+    )
+    .reverse()
+    .map(({ start, end }) => ({
+      type: "cut",
+      start: start + keepDuration / 2,
+      end: end - keepDuration / 2,
+    }));
@@ -0,0 +1,197 @@
+// Lightweight inline markup for speech scripts:
+//   [pause], [pause 500ms], [pause 1.5s]  insert silence (a bare number is
+//                                        seconds up to 10, else milliseconds)
+//   [voice:nova] ... [/voice]            switch voice until changed or reset
+//   [speed:1.2] ... [/speed]             scale the selected speed
+//   [spell]API[/spell]                   read letter by letter
+//   [emphasis]really[/emphasis]          stress by slowing down
+// A literal bracket is written as \[.
+
+export type MarkupSegment =
+  | {
+      type: "speech";
+      text: string;
+      voice?: string; // Unset means the selected voice
+      rate: number; // Multiplier on the selected speed
+    }
+  | { type: "pause"; durationMs: number };
+
+export interface MarkupError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface MarkupOptions {
+  // Known voice ids; unknown ones are reported when given
+  voices?: string[];
+}
+
+export const DEFAULT_PAUSE_MS = 500;
+export const MAX_PAUSE_MS = 10000;
+const MIN_RATE = 0.25;
+const MAX_RATE = 4;
+const EMPHASIS_RATE = 0.85;
+
+const TAG_PATTERN = /\\\[|\[(\/?)([a-z]+)(?:[:\s]\s*([^\]]*?))?\s*\]/gi;
+
+/**
+ * Whether `text` contains anything that looks like a markup tag.
+ */
+export const hasSpeechMarkup = (text: string): boolean =>
+  /\[\/?(pause|voice|speed|spell|emphasis)\b/i.test(text);
+
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === "s" || (!match[2] && amount <= 10)
+    ? amount * 1000
+    : amount;
+};
+
+const spellOut = (text: string) =>
+  Array.from(text.replace(/\s+/g, "")).join(" ");
+
+/**
+ * Parses markup into speech and pause segments. Adjacent speech with the
+ * same voice and rate is merged; whitespace-only speech is dropped.
+ */
+export const parseSpeechMarkup = (
+  input: string,
+  { voices }: MarkupOptions = {}
+): { segments: MarkupSegment[]; errors: MarkupError[] } => {
+  const segments: MarkupSegment[] = [];
+  const errors: MarkupError[] = [];
+  let voice: string | undefined;
+  let rate = 1;
+  // Paired tags currently open, with where they were opened
+  const open: { name: string; start: number; end: number }[] = [];
+  let spellStart: number | null = null;
+  let lastIndex = 0;
+
+  const isOpen = (name: string) => open.some((tag) => tag.name === name);
+  const currentRate = () => rate * (isOpen("emphasis") ? EMPHASIS_RATE : 1);
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    const segmentRate = currentRate();
+
+    if (
+      last?.type === "speech" &&
+      last.voice === voice &&
+      last.rate === segmentRate
+    ) {
+      last.text += text;
+    } else {
+      segments.push({ type: "speech", text, voice, rate: segmentRate });
+    }
+  };
+
+  const addText = (end: number) => {
+    if (spellStart === null) pushText(input.slice(lastIndex, end));
+  };
+
+  for (const match of Array.from(input.matchAll(TAG_PATTERN))) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    addText(start);
+    lastIndex = end;
+
+    if (match[0] === "\\[") {
+      if (spellStart === null) pushText("[");
+      continue;
+    }
+
+    const isClosing = match[1] === "/";
+    const name = match[2].toLowerCase();
+    const argument = match[3]?.trim() ?? "";
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    if (spellStart !== null && !(isClosing && name === "spell")) {
+      fail("Tags are not allowed inside [spell]");
+      continue;
+    }
+
+    switch (isClosing ? `/${name}` : name) {
+      case "pause": {
+        const durationMs = argument
+          ? parseDuration(argument)
+          : DEFAULT_PAUSE_MS;
+        if (durationMs === null) {
+          fail(`Invalid pause length "${argument}", use e.g. 500ms or 1.5s`);
+        } else if (durationMs > MAX_PAUSE_MS) {
+          fail(`Pauses can be at most ${MAX_PAUSE_MS / 1000}s`);
+        } else if (durationMs > 0) {
+          segments.push({ type: "pause", durationMs });
+        }
+        break;
+      }
+      case "voice":
+        if (!argument) {
+          fail("Voice tag needs a voice, e.g. [voice:nova]");
+        } else if (voices && !voices.includes(argument)) {
+          fail(`Unknown voice "${argument}"`);
+        } else {
+          voice = argument;
+        }
+        break;
+      case "/voice":
+        voice = undefined;
+        break;
+      case "speed": {
+        const value = Number(argument);
+        if (!argument || !Number.isFinite(value)) {
+          fail("Speed tag needs a number, e.g. [speed:1.2]");
+        } else if (value < MIN_RATE || value > MAX_RATE) {
+          fail(`Speed must be between ${MIN_RATE} and ${MAX_RATE}`);
+        } else {
+          rate = value;
+        }
+        break;
+      }
+      case "/speed":
+        rate = 1;
+        break;
+      case "spell":
+      case "emphasis":
+        if (isOpen(name)) {
+          fail(`[${name}] is already open`);
+        } else {
+          open.push({ name, start, end });
+          if (name === "spell") spellStart = end;
+        }
+        break;
+      case "/spell":
+      case "/emphasis": {
+        const index = open.map((tag) => tag.name).lastIndexOf(name);
+        if (index === -1) {
+          fail(`[/${name}] has no matching [${name}]`);
+          break;
+        }
+        if (name === "spell" && spellStart !== null) {
+          pushText(spellOut(input.slice(spellStart, start)));
+          spellStart = null;
+        }
+        open.splice(index, 1);
+        break;
+      }
+      default:
+        fail(`Unknown tag [${isClosing ? "/" : ""}${name}]`);
+    }
+  }
+
+  addText(input.length);
+  open.forEach(({ name, start, end }) =>
+    errors.push({ message: `[${name}] is never closed`, start, end })
+  );
+
+  return {
+    segments: segments.filter(
+      (segment) => segment.type === "pause" || segment.text.trim()
+    ),
+    errors,
+  };
+};
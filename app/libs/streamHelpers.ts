@@ -0,0 +1,50 @@
+import { concatUint8Arrays } from "./mp3Helpers";
+
+/**
+ * Passes bytes through unchanged and reports the complete payload once the
+ * stream finishes. Nothing is reported if the stream is cancelled or errors.
+ */
+export const collectStream = (
+  onComplete: (data: ArrayBuffer) => void
+): TransformStream<Uint8Array, Uint8Array> => {
+  const parts: Uint8Array[] = [];
+
+  return new TransformStream({
+    transform: (chunk, controller) => {
+      parts.push(chunk);
+      controller.enqueue(chunk);
+    },
+    flush: () => {
+      onComplete(concatUint8Arrays(parts).buffer as ArrayBuffer);
+    },
+  });
+};
+
+export const readStreamToBuffer = (
+  stream: ReadableStream<Uint8Array>
+): Promise<ArrayBuffer> => new Response(stream).arrayBuffer();
+
+/**
+ * Reads a newline-delimited JSON stream, calling `onEvent` for every line as
+ * soon as it arrives.
+ */
+export const readNdjson = async <T>(
+  stream: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+): Promise<void> => {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffered += value;
+
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() || "";
+    lines
+      .filter((line) => line.trim())
+      .forEach((line) => onEvent(JSON.parse(line) as T));
+
+    if (done) break;
+  }
+};
@@ -0,0 +1,99 @@
+import { concatUint8Arrays } from "./mp3Helpers";
+
+export interface StreamingPlayback {
+  // Object URL of a MediaSource, to be used as an <audio> src
+  url: string;
+  // Resolves with the complete audio once the stream ends
+  completed: Promise<ArrayBuffer>;
+}
+
+/**
+ * Whether the browser can play `mimeType` progressively through Media Source
+ * Extensions.
+ */
+export const canStreamPlayback = (mimeType: string): boolean =>
+  typeof window !== "undefined" &&
+  "MediaSource" in window &&
+  MediaSource.isTypeSupported(mimeType);
+
+/**
+ * Feeds an audio stream into a MediaSource so playback can start with the
+ * first bytes. The stream is read regardless of whether a player ever
+ * attaches, so `completed` always settles; playback problems are logged but
+ * do not fail it.
+ */
+export const createStreamingPlayback = (
+  stream: ReadableStream<Uint8Array>,
+  mimeType: string
+): StreamingPlayback => {
+  const mediaSource = new MediaSource();
+  const url = URL.createObjectURL(mediaSource);
+  const pending: Uint8Array[] = [];
+  let sourceBuffer: SourceBuffer | null = null;
+  let isStreamDone = false;
+
+  const feed = () => {
+    if (
+      !sourceBuffer ||
+      sourceBuffer.updating ||
+      mediaSource.readyState !== "open"
+    ) {
+      return;
+    }
+
+    try {
+      const next = pending.shift();
+      if (next) {
+        sourceBuffer.appendBuffer(next);
+      } else if (isStreamDone) {
+        mediaSource.endOfStream();
+      }
+    } catch (error) {
+      console.error("Failed to append streamed audio:", error);
+    }
+  };
+
+  mediaSource.addEventListener(
+    "sourceopen",
+    () => {
+      try {
+        sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+        sourceBuffer.mode = "sequence";
+        sourceBuffer.addEventListener("updateend", feed);
+        feed();
+      } catch (error) {
+        console.error("Failed to start streaming playback:", error);
+      }
+    },
+    { once: true }
+  );
+
+  const completed = (async () => {
+    const parts: Uint8Array[] = [];
+    const reader = stream.getReader();
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        parts.push(value);
+        pending.push(value);
+        feed();
+      }
+    } catch (error) {
+      // Cancelled or failed download: stop the player where it is
+      pending.length = 0;
+      if (mediaSource.readyState === "open") {
+        mediaSource.endOfStream("network");
+      }
+      throw error;
+    }
+
+    isStreamDone = true;
+    feed();
+    return concatUint8Arrays(parts).buffer as ArrayBuffer;
+  })();
+
+  return { url, completed };
+};
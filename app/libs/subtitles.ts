@@ -0,0 +1,131 @@
+// SRT and WebVTT export built from word timings. Cues follow sentences and
+// are split further when they would run past the line or duration limits.
+
+import { WordTimings } from "./wordTimings";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleOptions {
+  maxLineLength: number; // Characters
+  maxLines: number;
+  maxCueDuration: number; // Seconds
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 7,
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+// How long a cue may linger into the silence after its last word
+const MAX_CUE_TAIL = 0.5;
+
+/**
+ * Greedy word wrap. A single word longer than the limit gets its own line.
+ */
+const wrapWords = (words: string[], maxLineLength: number): string[] =>
+  words.reduce<string[]>((lines, word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+    return lines;
+  }, []);
+
+export const buildSubtitleCues = (
+  { text, words, duration }: WordTimings,
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let cueWords: string[] = [];
+  let cueStart = 0;
+  let cueEnd = 0;
+  let cueSentence = -1;
+
+  const flush = (nextStart?: number) => {
+    if (cueWords.length === 0) return;
+    cues.push({
+      start: cueStart,
+      end: Math.max(
+        cueEnd,
+        Math.min(nextStart ?? duration, cueEnd + MAX_CUE_TAIL)
+      ),
+      lines: wrapWords(cueWords, options.maxLineLength),
+    });
+    cueWords = [];
+  };
+
+  words.forEach((word) => {
+    const wordText = text.slice(word.charStart, word.charEnd).trim();
+    const candidate = [...cueWords, wordText];
+
+    if (
+      cueWords.length > 0 &&
+      (word.sentence !== cueSentence ||
+        word.end - cueStart > options.maxCueDuration ||
+        wrapWords(candidate, options.maxLineLength).length > options.maxLines)
+    ) {
+      flush(word.start);
+    }
+
+    if (cueWords.length === 0) {
+      cueStart = word.start;
+      cueSentence = word.sentence;
+    }
+    cueWords.push(wordText);
+    cueEnd = word.end;
+  });
+  flush();
+
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, format: SubtitleFormat) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${
+    format === "srt" ? "," : "."
+  }${pad(ms, 3)}`;
+};
+
+// WebVTT cue text is parsed for tags and entities
+const escapeVtt = (line: string) =>
+  line.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const formatSubtitles = (
+  cues: SubtitleCue[],
+  format: SubtitleFormat
+): string => {
+  const blocks = cues.map((cue, index) => {
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(
+      cue.end,
+      format
+    )}`;
+    const lines = [
+      timing,
+      ...(format === "vtt" ? cue.lines.map(escapeVtt) : cue.lines),
+    ];
+    return (format === "srt" ? [`${index + 1}`, ...lines] : lines).join("\n");
+  });
+
+  return `${format === "vtt" ? "WEBVTT\n\n" : ""}${blocks.join("\n\n")}\n`;
+};
@@ -0,0 +1,87 @@
+// Splits long input into provider-sized chunks, preferring paragraph and
+// sentence boundaries so every chunk still reads naturally on its own.
+
+const PARAGRAPH_SEPARATOR = /\n\s*\n/;
+const SENTENCE_PATTERN = /[^.!?。！？…]+(?:[.!?。！？…]+["'”’)\]]*|$)/g;
+
+export const splitSentences = (text: string): string[] =>
+  (text.match(SENTENCE_PATTERN) || [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+const splitByWords = (text: string, maxLength: number): string[] => {
+  const pieces: string[] = [];
+  let current = "";
+
+  text.split(/\s+/).forEach((word) => {
+    // A single "word" longer than the limit (e.g. a URL) is hard-split
+    while (word.length > maxLength) {
+      if (current) {
+        pieces.push(current);
+        current = "";
+      }
+      pieces.push(word.slice(0, maxLength));
+      word = word.slice(maxLength);
+    }
+
+    if (!word) return;
+
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLength) {
+      current += ` ${word}`;
+    } else {
+      pieces.push(current);
+      current = word;
+    }
+  });
+
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+export const splitTextIntoChunks = (
+  text: string,
+  maxLength: number
+): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+
+  const append = (piece: string, separator: string) => {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxLength) {
+      current += separator + piece;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  };
+
+  text
+    .split(PARAGRAPH_SEPARATOR)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .forEach((paragraph) => {
+      if (paragraph.length <= maxLength) {
+        append(paragraph, "\n\n");
+        return;
+      }
+
+      let separator = "\n\n";
+      splitSentences(paragraph).forEach((sentence) => {
+        const pieces =
+          sentence.length <= maxLength
+            ? [sentence]
+            : splitByWords(sentence, maxLength);
+
+        pieces.forEach((piece) => {
+          append(piece, separator);
+          separator = " ";
+        });
+      });
+    });
+
+  if (current) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,176 @@
+// RIFF/WAVE header parsing and writing for PCM audio.
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface WavInfo extends WavFormat {
+  dataOffset: number;
+  dataLength: number;
+}
+
+const WAV_HEADER_LENGTH = 44;
+
+const readAscii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(
+    ...Array.from({ length }, (_, index) => view.getUint8(offset + index))
+  );
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  Array.from(text).forEach((char, index) =>
+    view.setUint8(offset + index, char.charCodeAt(0))
+  );
+};
+
+/**
+ * Walks the RIFF chunks to find the format and data chunks. Returns null for
+ * anything that is not a WAVE file.
+ */
+export const parseWavHeader = (buffer: ArrayBuffer): WavInfo | null => {
+  const view = new DataView(buffer);
+  if (
+    buffer.byteLength < 12 ||
+    readAscii(view, 0, 4) !== "RIFF" ||
+    readAscii(view, 8, 4) !== "WAVE"
+  ) {
+    return null;
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readAscii(view, offset, 4);
+    const chunkLength = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkId === "fmt ") {
+      format = {
+        channels: view.getUint16(chunkStart + 2, true),
+        sampleRate: view.getUint32(chunkStart + 4, true),
+        bitsPerSample: view.getUint16(chunkStart + 14, true),
+      };
+    } else if (chunkId === "data" && format) {
+      // Streamed WAVs may carry a placeholder length, so clamp to the bytes
+      // that are actually there
+      return {
+        ...format,
+        dataOffset: chunkStart,
+        dataLength: Math.min(chunkLength, buffer.byteLength - chunkStart),
+      };
+    }
+
+    offset = chunkStart + chunkLength + (chunkLength % 2);
+  }
+
+  return null;
+};
+
+export const createWavHeader = (
+  { sampleRate, channels, bitsPerSample }: WavFormat,
+  dataLength: number
+): ArrayBuffer => {
+  const header = new ArrayBuffer(WAV_HEADER_LENGTH);
+  const view = new DataView(header);
+  const blockAlign = (channels * bitsPerSample) / 8;
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, WAV_HEADER_LENGTH - 8 + dataLength, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitsPerSample === 32 ? 3 : 1, true); // float or PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataLength, true);
+
+  return header;
+};
+
+export const wrapPcmAsWav = (pcm: ArrayBuffer, format: WavFormat) =>
+  new Blob([createWavHeader(format, pcm.byteLength), pcm], {
+    type: "audio/wav",
+  });
+
+/**
+ * Joins WAV files that share the same format into a single file.
+ */
+export const concatWavBuffers = (buffers: ArrayBuffer[]): ArrayBuffer => {
+  if (buffers.length === 1) return buffers[0];
+
+  const parts = buffers.map((buffer) => {
+    const info = parseWavHeader(buffer);
+    if (!info) throw new Error("Invalid WAV data");
+    return {
+      info,
+      data: new Uint8Array(buffer, info.dataOffset, info.dataLength),
+    };
+  });
+
+  const dataLength = parts.reduce((sum, { data }) => sum + data.length, 0);
+  const result = new Uint8Array(WAV_HEADER_LENGTH + dataLength);
+  result.set(new Uint8Array(createWavHeader(parts[0].info, dataLength)));
+
+  let offset = WAV_HEADER_LENGTH;
+  parts.forEach(({ data }) => {
+    result.set(data, offset);
+    offset += data.length;
+  });
+
+  return result.buffer;
+};
+
+/**
+ * Encodes decoded audio as WAV, interleaving the channels. 16 and 24 bits are
+ * integer PCM; 32 bits are stored as float.
+ */
+export const encodeWav = (
+  buffer: AudioBuffer,
+  bitsPerSample: 16 | 24 | 32 = 16
+): ArrayBuffer => {
+  const { numberOfChannels: channels, length, sampleRate } = buffer;
+  const bytesPerSample = bitsPerSample / 8;
+  const dataLength = length * channels * bytesPerSample;
+  const result = new Uint8Array(WAV_HEADER_LENGTH + dataLength);
+  result.set(
+    new Uint8Array(
+      createWavHeader({ sampleRate, channels, bitsPerSample }, dataLength)
+    )
+  );
+
+  const view = new DataView(result.buffer, WAV_HEADER_LENGTH);
+  const channelData = Array.from({ length: channels }, (_, channel) =>
+    buffer.getChannelData(channel)
+  );
+
+  for (let index = 0; index < length; index++) {
+    channelData.forEach((data, channel) => {
+      const offset = (index * channels + channel) * bytesPerSample;
+      const sample = Math.max(-1, Math.min(1, data[index]));
+
+      if (bitsPerSample === 32) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitsPerSample === 24) {
+        const value = Math.round(
+          sample < 0 ? sample * 0x800000 : sample * 0x7fffff
+        );
+        view.setUint8(offset, value & 0xff);
+        view.setInt16(offset + 1, value >> 8, true);
+      } else {
+        view.setInt16(
+          offset,
+          sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+          true
+        );
+      }
+    });
+  }
+
+  return result.buffer;
+};
@@ -0,0 +1,308 @@
+// Word-level timings for synchronized transcripts. Transcribed recordings
+// carry word timestamps from the speech service. TTS providers do not return
+// alignment data, so there timings are estimated from the audio duration:
+// each word gets time in proportion to its syllable count (scaled by the
+// speaking rate), and punctuation adds a short pause after the word.
+
+import { AudioFormat } from "../constants";
+import { getAudioDuration } from "./audioDuration";
+import { DialogueScript } from "./dialogueScript";
+import { parseSpeechMarkup } from "./speechMarkup";
+
+export interface WordTiming {
+  start: number; // Seconds
+  end: number;
+  // Range of the word in WordTimings.text
+  charStart: number;
+  charEnd: number;
+  sentence: number;
+}
+
+export interface WordTimings {
+  // "aligned" timings come from a service that reported word boundaries
+  source: "estimated" | "aligned";
+  // Text shown in the transcript; markup tags are removed and dialogue
+  // turns are prefixed with the speaker
+  text: string;
+  duration: number;
+  words: WordTiming[];
+}
+
+export type TimingSpan =
+  | { type: "speech"; text: string; rate: number }
+  | { type: "label"; text: string } // Shown but not spoken
+  | { type: "pause"; durationMs: number };
+
+interface TimingSource {
+  text: string;
+  isMarkup?: boolean;
+  script?: DialogueScript;
+}
+
+// Ideographs and kana are read one character at a time
+const CJK = "\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff";
+const TOKEN_PATTERN = new RegExp(`[${CJK}]|[^\\s${CJK}]+`, "g");
+const CJK_PATTERN = new RegExp(`^[${CJK}]$`);
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+const SENTENCE_END_PATTERN = /[.!?…。！？]["'”’)\]]*$/;
+const CLAUSE_END_PATTERN = /[,;:，、；：]["'”’)\]]*$/;
+
+// Pauses after punctuation, in syllables
+const SENTENCE_PAUSE = 2;
+const CLAUSE_PAUSE = 1;
+
+const countSyllables = (word: string): number => {
+  if (CJK_PATTERN.test(word)) return 1;
+
+  const plain = word.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  const digits = plain.replace(/\D/g, "").length;
+  const letters = plain.replace(/[^\p{L}]/gu, "");
+  const vowelGroups = letters.match(/[aeiouy]+/gi)?.length ?? 0;
+  // Scripts without Latin vowels fall back to a length-based guess
+  const syllables = /[a-z]/i.test(letters)
+    ? vowelGroups
+    : Math.ceil(letters.length / 3);
+
+  return Math.max(1, syllables + digits);
+};
+
+/**
+ * Splits what is spoken into timed spans: plain text is one span, markup
+ * keeps its pauses and rates, and dialogue turns are separated by the gap.
+ */
+export const getTimingSpans = ({
+  text,
+  isMarkup,
+  script,
+}: TimingSource): TimingSpan[] => {
+  if (script) {
+    return script.turns.flatMap((turn, index): TimingSpan[] => [
+      ...(index > 0
+        ? [
+            { type: "label" as const, text: "\n" },
+            { type: "pause" as const, durationMs: script.gapMs },
+          ]
+        : []),
+      { type: "label", text: `${turn.speaker}: ` },
+      { type: "speech", text: turn.text, rate: 1 },
+    ]);
+  }
+
+  if (isMarkup) {
+    const { segments, errors } = parseSpeechMarkup(text);
+    if (errors.length === 0) {
+      return segments.map((segment) =>
+        segment.type === "pause"
+          ? segment
+          : { type: "speech", text: segment.text, rate: segment.rate }
+      );
+    }
+  }
+
+  return [{ type: "speech", text, rate: 1 }];
+};
+
+/**
+ * Spreads `duration` seconds over the words of `spans`.
+ */
+export const estimateWordTimings = (
+  spans: TimingSpan[],
+  duration: number
+): WordTimings => {
+  let text = "";
+  let sentence = 0;
+  let pauseSeconds = 0;
+  let totalWeight = 0;
+  // Words with their weight, and fixed pauses, in playback order
+  const steps: (
+    | { word: WordTiming; weight: number; gap: number }
+    | { pause: number }
+  )[] = [];
+  const words: WordTiming[] = [];
+
+  const endSentence = () => {
+    if (words.length > 0 && words[words.length - 1].sentence === sentence) {
+      sentence++;
+    }
+  };
+
+  spans.forEach((span) => {
+    if (span.type === "pause") {
+      pauseSeconds += span.durationMs / 1000;
+      steps.push({ pause: span.durationMs / 1000 });
+      if (!/\s$/.test(text) && text) text += " ";
+      return;
+    }
+
+    const offset = text.length;
+    text += span.text;
+
+    if (span.type === "label") {
+      if (span.text.includes("\n")) endSentence();
+      return;
+    }
+
+    const rate = span.rate > 0 ? span.rate : 1;
+    let previousEnd = 0;
+
+    Array.from(span.text.matchAll(TOKEN_PATTERN)).forEach((match) => {
+      const token = match[0];
+      const index = match.index ?? 0;
+      if (span.text.slice(previousEnd, index).includes("\n")) endSentence();
+      previousEnd = index + token.length;
+
+      let step = steps[steps.length - 1];
+
+      if (WORD_PATTERN.test(token)) {
+        const word: WordTiming = {
+          start: 0,
+          end: 0,
+          charStart: offset + index,
+          charEnd: offset + previousEnd,
+          sentence,
+        };
+        const weight = countSyllables(token) / rate;
+        totalWeight += weight;
+        words.push(word);
+        step = { word, weight, gap: 0 };
+        steps.push(step);
+      } else if (step && "word" in step) {
+        // Bare punctuation belongs to the word before it
+        step.word.charEnd = offset + previousEnd;
+      } else {
+        return;
+      }
+
+      if (!("word" in step)) return;
+      if (SENTENCE_END_PATTERN.test(token)) {
+        step.gap = SENTENCE_PAUSE / rate;
+        sentence++;
+      } else if (CLAUSE_END_PATTERN.test(token)) {
+        step.gap = CLAUSE_PAUSE / rate;
+      }
+    });
+    if (/\n/.test(span.text.slice(previousEnd))) endSentence();
+  });
+
+  // The last word runs to the end, so its trailing pause is not counted
+  const lastStep = steps.filter((step) => "word" in step).pop();
+  if (lastStep && "word" in lastStep) lastStep.gap = 0;
+
+  const gapWeight = steps.reduce(
+    (sum, step) => sum + ("word" in step ? step.gap : 0),
+    0
+  );
+  // Fixed pauses that do not fit are squeezed along with the speech
+  const pauseScale = pauseSeconds > duration ? duration / pauseSeconds : 1;
+  const speechSeconds = Math.max(0, duration - pauseSeconds * pauseScale);
+  const secondsPerWeight =
+    totalWeight + gapWeight > 0 ? speechSeconds / (totalWeight + gapWeight) : 0;
+
+  let time = 0;
+  steps.forEach((step) => {
+    if ("pause" in step) {
+      time += step.pause * pauseScale;
+      return;
+    }
+    step.word.start = time;
+    time += step.weight * secondsPerWeight;
+    step.word.end = time;
+    time += step.gap * secondsPerWeight;
+  });
+
+  return { source: "estimated", text, duration, words };
+};
+
+/**
+ * Adds estimated timings to a stored clip. The clip is returned unchanged
+ * when its audio cannot be decoded; it still plays, just without transcript.
+ */
+export const withWordTimings = async <
+  T extends TimingSource & {
+    audioBinary: ArrayBuffer;
+    format?: AudioFormat;
+    timings?: WordTimings;
+  }
+>(
+  item: T
+): Promise<T> => {
+  try {
+    const duration = await getAudioDuration(item.audioBinary, item.format);
+    return {
+      ...item,
+      timings: estimateWordTimings(getTimingSpans(item), duration),
+    };
+  } catch (error) {
+    console.error("Failed to estimate word timings:", error);
+    return item;
+  }
+};
+
+/**
+ * Builds timings from word timestamps reported by a speech service. Each
+ * word is located in `text` in order, taking trailing punctuation with it;
+ * words that cannot be found are left out of the transcript.
+ */
+export const alignWordTimings = (
+  text: string,
+  timestamps: { word: string; start: number; end: number }[],
+  duration?: number
+): WordTimings => {
+  const lowerText = text.toLowerCase();
+  const words: WordTiming[] = [];
+  let cursor = 0;
+  let sentence = 0;
+
+  timestamps.forEach(({ word, start, end }) => {
+    const needle = word.trim().toLowerCase();
+    const charStart = needle ? lowerText.indexOf(needle, cursor) : -1;
+    if (charStart === -1) return;
+
+    // A line break ends the sentence even without punctuation
+    const previous = words[words.length - 1];
+    if (
+      previous?.sentence === sentence &&
+      /\n/.test(text.slice(previous.charEnd, charStart))
+    ) {
+      sentence++;
+    }
+
+    let charEnd = charStart + needle.length;
+    while (charEnd < text.length && /[^\s\p{L}\p{N}]/u.test(text[charEnd])) {
+      charEnd++;
+    }
+    cursor = charEnd;
+
+    words.push({ start, end, charStart, charEnd, sentence });
+    if (SENTENCE_END_PATTERN.test(text.slice(charStart, charEnd))) sentence++;
+  });
+
+  return {
+    source: "aligned",
+    text,
+    duration: duration ?? words[words.length - 1]?.end ?? 0,
+    words,
+  };
+};
+
+/**
+ * Index of the word being spoken at `time`, or -1 before the first word.
+ * Pauses keep the previous word selected.
+ */
+export const findWordIndex = (words: WordTiming[], time: number): number => {
+  let low = 0;
+  let high = words.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (words[middle].start <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+};
@@ -0,0 +1,41 @@
+import { RateLimitStore } from "./types";
+
+// Expired entries are swept every this many updates
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Process-local store. Limits are per server instance, which is enough for a
+ * single deployment but not for several replicas.
+ */
+export const createMemoryStore = (): RateLimitStore => {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  let updateCount = 0;
+
+  const sweep = (now: number) => {
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) entries.delete(key);
+    });
+  };
+
+  const read = <T>(key: string, now: number): T | null => {
+    const entry = entries.get(key);
+    if (!entry || entry.expiresAt <= now) return null;
+    return entry.value as T;
+  };
+
+  return {
+    get: async <T>(key: string) => read<T>(key, Date.now()),
+    update: async <T>(
+      key: string,
+      ttlMs: number,
+      updater: (current: T | null) => T
+    ) => {
+      const now = Date.now();
+      if (++updateCount % SWEEP_INTERVAL === 0) sweep(now);
+
+      const value = updater(read<T>(key, now));
+      entries.set(key, { value, expiresAt: now + ttlMs });
+      return value;
+    },
+  };
+};
@@ -0,0 +1,194 @@
+import {
+  RATE_LIMIT_CONFIG,
+  STT_RATE_LIMIT_CONFIG,
+  TRUSTED_PROXY_HOPS,
+} from "../../constants";
+import { createMemoryStore } from "./memoryStore";
+import {
+  QuotaStatus,
+  RateLimitConfig,
+  RateLimitResult,
+  RateLimitStore,
+} from "./types";
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface ClientState {
+  requests: Bucket;
+  characters: Bucket;
+  daily: { day: string; used: number };
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const getDay = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+const getNextDayStart = (now: number) => (Math.floor(now / DAY) + 1) * DAY;
+
+// Refills a bucket that holds `capacity` tokens and refills fully per minute
+const refill = (bucket: Bucket, capacity: number, now: number): Bucket => ({
+  tokens: Math.min(
+    capacity,
+    bucket.tokens + ((now - bucket.updatedAt) / MINUTE) * capacity
+  ),
+  updatedAt: now,
+});
+
+const secondsUntil = (missing: number, capacity: number) =>
+  Math.ceil((missing / capacity) * 60);
+
+/**
+ * Identifies the caller by the address the outermost trusted proxy received
+ * the request from: the right-most X-Forwarded-For entry it did not add
+ * itself. Clients can write anything into these headers, so without trusted
+ * proxies every caller shares the "anonymous" bucket.
+ */
+export const getClientId = (request: Request): string => {
+  if (TRUSTED_PROXY_HOPS <= 0) return "anonymous";
+
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)];
+  }
+
+  return request.headers.get("x-real-ip")?.trim() || "anonymous";
+};
+
+/**
+ * Token buckets for requests and characters per minute plus a fixed daily
+ * character quota (UTC days), all kept in one store entry per client.
+ * A text larger than the per-minute character budget is let through when
+ * the bucket is full and leaves it in debt, so long texts are slowed down
+ * rather than refused forever.
+ */
+export const createRateLimiter = (
+  store: RateLimitStore,
+  config: RateLimitConfig
+) => {
+  const initialState = (now: number): ClientState => ({
+    requests: { tokens: config.requestsPerMinute, updatedAt: now },
+    characters: { tokens: config.charactersPerMinute, updatedAt: now },
+    daily: { day: getDay(now), used: 0 },
+  });
+
+  const currentState = (state: ClientState | null, now: number) => {
+    const base = state || initialState(now);
+    return {
+      requests: refill(base.requests, config.requestsPerMinute, now),
+      characters: refill(base.characters, config.charactersPerMinute, now),
+      daily:
+        base.daily.day === getDay(now)
+          ? base.daily
+          : { day: getDay(now), used: 0 },
+    };
+  };
+
+  const toStatus = (state: ClientState, now: number): QuotaStatus => ({
+    requestsRemaining: config.requestsPerMinute
+      ? Math.max(0, Math.floor(state.requests.tokens))
+      : null,
+    requestLimit: config.requestsPerMinute,
+    charactersRemaining: config.charactersPerMinute
+      ? Math.max(0, Math.floor(state.characters.tokens))
+      : null,
+    characterLimit: config.charactersPerMinute,
+    dailyCharactersRemaining: config.dailyCharacterQuota
+      ? Math.max(0, config.dailyCharacterQuota - state.daily.used)
+      : null,
+    dailyCharacterQuota: config.dailyCharacterQuota,
+    dailyResetAt: getNextDayStart(now),
+  });
+
+  const consume = async (
+    clientId: string,
+    characters: number
+  ): Promise<RateLimitResult> => {
+    const now = Date.now();
+    let result: Omit<RateLimitResult, "status"> = {
+      allowed: true,
+      retryAfter: 0,
+    };
+
+    const state = await store.update<ClientState>(
+      `tts:${clientId}`,
+      DAY,
+      (stored) => {
+        const next = currentState(stored, now);
+        const characterCost = Math.min(characters, config.charactersPerMinute);
+
+        if (config.requestsPerMinute && next.requests.tokens < 1) {
+          result = {
+            allowed: false,
+            reason: "requests",
+            retryAfter: secondsUntil(
+              1 - next.requests.tokens,
+              config.requestsPerMinute
+            ),
+          };
+        } else if (
+          config.dailyCharacterQuota &&
+          next.daily.used + characters > config.dailyCharacterQuota
+        ) {
+          result = {
+            allowed: false,
+            reason: "daily",
+            retryAfter: Math.ceil((getNextDayStart(now) - now) / 1000),
+          };
+        } else if (
+          config.charactersPerMinute &&
+          next.characters.tokens < characterCost
+        ) {
+          result = {
+            allowed: false,
+            reason: "characters",
+            retryAfter: secondsUntil(
+              characterCost - next.characters.tokens,
+              config.charactersPerMinute
+            ),
+          };
+        }
+
+        if (!result.allowed) return next;
+
+        return {
+          requests: { ...next.requests, tokens: next.requests.tokens - 1 },
+          characters: {
+            ...next.characters,
+            tokens: next.characters.tokens - characters,
+          },
+          daily: { ...next.daily, used: next.daily.used + characters },
+        };
+      }
+    );
+
+    return { ...result, status: toStatus(state, now) };
+  };
+
+  const getStatus = async (clientId: string): Promise<QuotaStatus> => {
+    const now = Date.now();
+    const stored = await store.get<ClientState>(`tts:${clientId}`);
+    return toStatus(currentState(stored, now), now);
+  };
+
+  return { consume, getStatus };
+};
+
+export const ttsRateLimiter = createRateLimiter(createMemoryStore(), {
+  requestsPerMinute: RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE,
+  charactersPerMinute: RATE_LIMIT_CONFIG.CHARACTERS_PER_MINUTE,
+  dailyCharacterQuota: RATE_LIMIT_CONFIG.DAILY_CHARACTER_QUOTA,
+});
+
+// Transcription is charged by upload size, so its "characters" are kilobytes
+export const sttRateLimiter = createRateLimiter(createMemoryStore(), {
+  requestsPerMinute: STT_RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE,
+  charactersPerMinute: STT_RATE_LIMIT_CONFIG.KILOBYTES_PER_MINUTE,
+  dailyCharacterQuota: STT_RATE_LIMIT_CONFIG.DAILY_KILOBYTE_QUOTA,
+});
@@ -0,0 +1,36 @@
+/**
+ * Storage for rate limit state. `update` must apply the updater atomically
+ * per key so concurrent requests from one client cannot both pass; a shared
+ * store (e.g. Redis) would implement it with a transaction or script.
+ */
+export interface RateLimitStore {
+  update: <T>(
+    key: string,
+    ttlMs: number,
+    updater: (current: T | null) => T
+  ) => Promise<T>;
+  get: <T>(key: string) => Promise<T | null>;
+}
+
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  charactersPerMinute: number;
+  dailyCharacterQuota: number;
+}
+
+export interface QuotaStatus {
+  requestsRemaining: number | null; // null when the limit is disabled
+  requestLimit: number;
+  charactersRemaining: number | null;
+  characterLimit: number;
+  dailyCharactersRemaining: number | null;
+  dailyCharacterQuota: number;
+  dailyResetAt: number; // Epoch milliseconds
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // Seconds, 0 when allowed
+  reason?: "requests" | "characters" | "daily";
+  status: QuotaStatus;
+}
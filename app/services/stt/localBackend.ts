@@ -0,0 +1,37 @@
+import { STTBackend } from "./types";
+
+interface LocalBackendOptions {
+  text?: string;
+}
+
+// Seconds given to each word of the canned transcript
+const WORD_DURATION = 0.4;
+
+/**
+ * Offline stand-in that answers every request with the same text and evenly
+ * spaced word timestamps. Used for development and tests without an API key.
+ */
+export const createLocalBackend = ({
+  text = "This is a local transcription placeholder.",
+}: LocalBackendOptions): STTBackend => ({
+  id: "local",
+  name: "Local stand-in",
+  isConfigured: () => true,
+  transcribe: async ({ language }) => {
+    const words = text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word, index) => ({
+        word: word.replace(/[^\p{L}\p{N}'-]/gu, ""),
+        start: index * WORD_DURATION,
+        end: (index + 1) * WORD_DURATION,
+      }));
+
+    return {
+      text,
+      language,
+      duration: words.length * WORD_DURATION,
+      words,
+    };
+  },
+});
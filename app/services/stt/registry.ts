@@ -0,0 +1,27 @@
+import { createLocalBackend } from "./localBackend";
+import { STTBackend } from "./types";
+import { createWhisperBackend } from "./whisperBackend";
+
+const backends = new Map<string, STTBackend>();
+
+export const registerBackend = (backend: STTBackend) => {
+  backends.set(backend.id, backend);
+};
+
+export const getDefaultBackendId = (): string =>
+  process.env.STT_DEFAULT_BACKEND || "whisper";
+
+/**
+ * Resolves the configured transcription backend. Returns null when it is
+ * unknown or not configured.
+ */
+export const getBackend = (id?: string): STTBackend | null => {
+  const backend = backends.get(id || getDefaultBackendId());
+  return backend && backend.isConfigured() ? backend : null;
+};
+
+// Built-in backends, configured from the environment
+registerBackend(createWhisperBackend({ apiKey: process.env.OPENAI_API_KEY }));
+registerBackend(
+  createLocalBackend({ text: process.env.STT_LOCAL_TEXT || undefined })
+);
@@ -0,0 +1,27 @@
+export interface TranscriptionRequest {
+  audio: Blob;
+  fileName: string; // Backends use the extension to detect the format
+  language?: string;
+  // Aborted when the client goes away
+  signal?: AbortSignal;
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number; // Seconds
+  end: number;
+}
+
+export interface Transcription {
+  text: string;
+  language?: string;
+  duration?: number;
+  words: TranscriptWord[];
+}
+
+export interface STTBackend {
+  id: string;
+  name: string;
+  isConfigured: () => boolean;
+  transcribe: (request: TranscriptionRequest) => Promise<Transcription>;
+}
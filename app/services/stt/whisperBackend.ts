@@ -0,0 +1,62 @@
+import { STT_CONFIG } from "../../constants";
+import { fetchWithRetry } from "../../libs/fetchWithRetry";
+import { createUpstreamError } from "../tts/errors";
+import { getRetryOptions } from "../tts/retryOptions";
+import { STTBackend, TranscriptWord } from "./types";
+
+interface WhisperBackendOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+interface WhisperResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  words?: TranscriptWord[];
+}
+
+export const createWhisperBackend = ({
+  apiKey,
+  baseUrl = "https://api.openai.com/v1",
+  model = "whisper-1",
+}: WhisperBackendOptions): STTBackend => ({
+  id: "whisper",
+  name: "OpenAI Whisper",
+  isConfigured: () => Boolean(apiKey),
+  transcribe: async ({ audio, fileName, language, signal }) => {
+    const form = new FormData();
+    form.append("file", audio, fileName);
+    form.append("model", model);
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "word");
+    if (language) form.append("language", language);
+
+    const response = await fetchWithRetry(
+      `${baseUrl}/audio/transcriptions`,
+      {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+      },
+      { ...getRetryOptions(signal), timeoutMs: STT_CONFIG.TIMEOUT_MS }
+    );
+
+    if (!response.ok) {
+      throw await createUpstreamError(response);
+    }
+
+    const result = (await response.json()) as WhisperResponse;
+    return {
+      text: result.text.trim(),
+      language: result.language,
+      duration: result.duration,
+      words: (result.words || []).map(({ word, start, end }) => ({
+        word: word.trim(),
+        start,
+        end,
+      })),
+    };
+  },
+});
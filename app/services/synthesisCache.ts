@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { SYNTHESIS_CACHE_CONFIG } from "../constants";
+
+// Type definitions
+type CacheItem<T> = {
+  data: T;
+  expirationTime: number;
+};
+
+export interface CachedSynthesis {
+  audio: ArrayBuffer;
+  contentType: string;
+  chunks: number;
+}
+
+export interface SynthesisCacheKey {
+  provider: string;
+  text: string;
+  voice: string;
+  language: string;
+  model: string;
+  speed: number;
+  format: string;
+}
+
+// Map iteration follows insertion order, so re-inserting on read keeps the
+// least recently used entry first
+const entries = new Map<string, CacheItem<CachedSynthesis>>();
+let totalBytes = 0;
+
+/**
+ * Content hash of a synthesis request. Whitespace differences and
+ * insignificant speed digits map to the same key.
+ */
+export const createSynthesisKey = (request: SynthesisCacheKey): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.provider,
+        request.text.replace(/\s+/g, " ").trim(),
+        request.voice,
+        request.language.toLowerCase(),
+        request.model,
+        Number(request.speed.toFixed(2)),
+        request.format,
+      ])
+    )
+    .digest("hex");
+
+/**
+ * In-memory LRU cache with TTL for synthesized audio, bounded by entry count
+ * and total size
+ */
+const synthesisCache = {
+  get: (key: string): CachedSynthesis | null => {
+    const cached = entries.get(key);
+    if (!cached) return null;
+
+    if (cached.expirationTime <= Date.now()) {
+      synthesisCache.remove(key);
+      return null;
+    }
+
+    entries.delete(key);
+    entries.set(key, cached);
+    return cached.data;
+  },
+
+  set: (key: string, data: CachedSynthesis): boolean => {
+    if (
+      SYNTHESIS_CACHE_CONFIG.MAX_ENTRIES <= 0 ||
+      data.audio.byteLength > SYNTHESIS_CACHE_CONFIG.MAX_BYTES
+    ) {
+      return false;
+    }
+
+    synthesisCache.remove(key);
+    entries.set(key, {
+      data,
+      expirationTime: Date.now() + SYNTHESIS_CACHE_CONFIG.TTL,
+    });
+    totalBytes += data.audio.byteLength;
+
+    // Evict least recently used entries until back within limits
+    for (const oldestKey of entries.keys()) {
+      if (
+        entries.size <= SYNTHESIS_CACHE_CONFIG.MAX_ENTRIES &&
+        totalBytes <= SYNTHESIS_CACHE_CONFIG.MAX_BYTES
+      ) {
+        break;
+      }
+      synthesisCache.remove(oldestKey);
+    }
+
+    return true;
+  },
+
+  remove: (key: string): void => {
+    const cached = entries.get(key);
+    if (!cached) return;
+
+    totalBytes -= cached.data.audio.byteLength;
+    entries.delete(key);
+  },
+
+  clear: (): void => {
+    entries.clear();
+    totalBytes = 0;
+  },
+};
+
+export default synthesisCache;
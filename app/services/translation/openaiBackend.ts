@@ -0,0 +1,68 @@
+import { LANGUAGES, TRANSLATION_CONFIG } from "../../constants";
+import { fetchWithRetry } from "../../libs/fetchWithRetry";
+import { createUpstreamError } from "../tts/errors";
+import { getRetryOptions } from "../tts/retryOptions";
+import { TranslationBackend } from "./types";
+
+interface OpenAIBackendOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null } }[];
+}
+
+const languageName = (code: string) =>
+  LANGUAGES[code as keyof typeof LANGUAGES] || code;
+
+export const createOpenAIBackend = ({
+  apiKey,
+  baseUrl = "https://api.openai.com/v1",
+  model = TRANSLATION_CONFIG.OPENAI_MODEL,
+}: OpenAIBackendOptions): TranslationBackend => ({
+  id: "openai",
+  name: "OpenAI",
+  isConfigured: () => Boolean(apiKey),
+  translate: async ({ text, sourceLanguage, targetLanguage, signal }) => {
+    const response = await fetchWithRetry(
+      `${baseUrl}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            {
+              role: "system",
+              content:
+                `Translate the user's text from ${languageName(
+                  sourceLanguage
+                )} to ${languageName(targetLanguage)}. ` +
+                "Keep the meaning, tone and line breaks. Reply with the translation only.",
+            },
+            { role: "user", content: text },
+          ],
+        }),
+      },
+      getRetryOptions(signal)
+    );
+
+    if (!response.ok) {
+      throw await createUpstreamError(response);
+    }
+
+    const { choices } = (await response.json()) as ChatCompletionResponse;
+    const translation = choices[0]?.message.content?.trim();
+    if (!translation) {
+      throw new Error("Empty translation");
+    }
+
+    return translation;
+  },
+});
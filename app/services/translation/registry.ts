@@ -0,0 +1,25 @@
+import { createOpenAIBackend } from "./openaiBackend";
+import { createStubBackend } from "./stubBackend";
+import { TranslationBackend } from "./types";
+
+const backends = new Map<string, TranslationBackend>();
+
+export const registerBackend = (backend: TranslationBackend) => {
+  backends.set(backend.id, backend);
+};
+
+export const getDefaultBackendId = (): string =>
+  process.env.TRANSLATION_DEFAULT_BACKEND || "openai";
+
+/**
+ * Resolves the configured translation backend. Returns null when it is
+ * unknown or not configured.
+ */
+export const getBackend = (id?: string): TranslationBackend | null => {
+  const backend = backends.get(id || getDefaultBackendId());
+  return backend && backend.isConfigured() ? backend : null;
+};
+
+// Built-in backends, configured from the environment
+registerBackend(createOpenAIBackend({ apiKey: process.env.OPENAI_API_KEY }));
+registerBackend(createStubBackend());
@@ -0,0 +1,12 @@
+import { TranslationBackend } from "./types";
+
+/**
+ * Offline stand-in that tags the text with the target language instead of
+ * translating it. Used for development and tests without an API key.
+ */
+export const createStubBackend = (): TranslationBackend => ({
+  id: "stub",
+  name: "Offline stub",
+  isConfigured: () => true,
+  translate: async ({ text, targetLanguage }) => `[${targetLanguage}] ${text}`,
+});
@@ -0,0 +1,19 @@
+export interface TranslationRequest {
+  text: string;
+  sourceLanguage: string; // Codes from LANGUAGES
+  targetLanguage: string;
+  // Aborted when the client goes away
+  signal?: AbortSignal;
+}
+
+export interface Translation {
+  language: string;
+  text: string;
+}
+
+export interface TranslationBackend {
+  id: string;
+  name: string;
+  isConfigured: () => boolean;
+  translate: (request: TranslationRequest) => Promise<string>;
+}
@@ -0,0 +1,81 @@
+import { LANGUAGES, TRANSLATION_CONFIG } from "../../constants";
+import { FieldErrors } from "../tts/validation";
+
+export interface TranslateRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguages: string[];
+}
+
+type ValidationResult<T> =
+  | { value: T; fieldErrors?: undefined }
+  | { value?: undefined; fieldErrors: FieldErrors };
+
+const isLanguage = (value: unknown): value is string =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(LANGUAGES, value.toLowerCase());
+
+/**
+ * Checks the shape of a translate request body. Duplicate targets and the
+ * source language itself are dropped from the targets.
+ */
+export const validateTranslateRequest = (
+  body: unknown
+): ValidationResult<TranslateRequest> => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { fieldErrors: { body: "Request body must be a JSON object" } };
+  }
+
+  const {
+    text,
+    sourceLanguage = "en",
+    targetLanguages,
+  } = body as Record<string, unknown>;
+  const fieldErrors: FieldErrors = {};
+
+  if (typeof text !== "string" || !text.trim()) {
+    fieldErrors.text = "Text input cannot be empty";
+  } else if (text.length > TRANSLATION_CONFIG.MAX_TEXT_LENGTH) {
+    fieldErrors.text = `Text can be at most ${TRANSLATION_CONFIG.MAX_TEXT_LENGTH} characters`;
+  }
+
+  if (!isLanguage(sourceLanguage)) {
+    fieldErrors.sourceLanguage = `Unsupported language "${sourceLanguage}"`;
+  }
+
+  if (!Array.isArray(targetLanguages) || targetLanguages.length === 0) {
+    fieldErrors.targetLanguages = "Pick at least one target language";
+  } else if (targetLanguages.length > TRANSLATION_CONFIG.MAX_TARGETS) {
+    fieldErrors.targetLanguages = `Pick at most ${TRANSLATION_CONFIG.MAX_TARGETS} target languages`;
+  } else {
+    const unknown = targetLanguages.find((language) => !isLanguage(language));
+    if (unknown !== undefined) {
+      fieldErrors.targetLanguages = `Unsupported language "${unknown}"`;
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { fieldErrors };
+  }
+
+  const source = (sourceLanguage as string).toLowerCase();
+  const targets = Array.from(
+    new Set((targetLanguages as string[]).map((code) => code.toLowerCase()))
+  ).filter((code) => code !== source);
+
+  if (targets.length === 0) {
+    return {
+      fieldErrors: {
+        targetLanguages: "Target languages must differ from the source",
+      },
+    };
+  }
+
+  return {
+    value: {
+      text: text as string,
+      sourceLanguage: source,
+      targetLanguages: targets,
+    },
+  };
+};
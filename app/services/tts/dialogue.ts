@@ -0,0 +1,105 @@
+import { TTS_CONFIG } from "../../constants";
+import { mapWithConcurrency } from "../../libs/asyncHelpers";
+import { canConcatFormat, concatAudioBuffers } from "../../libs/audioConcat";
+import { getSpeakers } from "../../libs/dialogueScript";
+import { createSilence, createSilenceLike } from "../../libs/silence";
+import {
+  SynthesisPlan,
+  planSynthesis,
+  synthesizeToBuffer,
+  validatePlan,
+} from "./synthesis";
+import { TTSProvider } from "./types";
+import { DialogueRequest, FieldErrors } from "./validation";
+
+export interface DialogueResult {
+  audio: ArrayBuffer;
+  // Per speaker: their turns with everyone else replaced by silence, so the
+  // stems line up with the combined track
+  stems: Record<string, ArrayBuffer> | null;
+}
+
+/**
+ * Plans one synthesis per turn with the speaker's voice.
+ */
+export const planDialogue = (
+  dialogue: DialogueRequest,
+  provider: TTSProvider
+):
+  | { plans: SynthesisPlan[]; fieldErrors?: undefined }
+  | { plans?: undefined; fieldErrors: FieldErrors } => {
+  const fieldErrors: FieldErrors = {};
+
+  getSpeakers(dialogue.turns).forEach((speaker) => {
+    const voice = dialogue.speakers[speaker];
+    if (!(voice in provider.voices)) {
+      fieldErrors[
+        `speakers.${speaker}`
+      ] = `${provider.name} has no voice "${voice}"`;
+    }
+  });
+  if (dialogue.turns.length > 1 && !canConcatFormat(dialogue.request.format)) {
+    fieldErrors.format = "Dialogues need MP3, AAC, WAV or PCM output";
+  }
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+
+  const plans = dialogue.turns.map(({ speaker, text }) =>
+    planSynthesis(
+      { ...dialogue.request, text, voice: dialogue.speakers[speaker] },
+      provider
+    )
+  );
+  plans.forEach((plan, index) => {
+    Object.entries(validatePlan(plan)).forEach(([field, message]) => {
+      fieldErrors[`turns.${index}.${field}`] = message;
+    });
+  });
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+
+  return { plans };
+};
+
+/**
+ * Synthesizes every turn and joins them with `gapMs` of silence in between.
+ */
+export const synthesizeDialogue = async (
+  dialogue: DialogueRequest,
+  plans: SynthesisPlan[],
+  signal?: AbortSignal
+): Promise<DialogueResult> => {
+  const { format } = dialogue.request;
+  const turnAudio = await mapWithConcurrency(
+    plans,
+    TTS_CONFIG.CHUNK_CONCURRENCY,
+    async (plan) => (await synthesizeToBuffer(plan, signal)).audio
+  );
+
+  const gap =
+    dialogue.gapMs > 0
+      ? createSilence(format, dialogue.gapMs, turnAudio[0])
+      : null;
+  const withGaps = (parts: ArrayBuffer[]) =>
+    concatAudioBuffers(
+      parts.flatMap((part, index) =>
+        gap && index < parts.length - 1 ? [part, gap] : [part]
+      ),
+      format
+    );
+
+  const stems = dialogue.stems
+    ? Object.fromEntries(
+        getSpeakers(dialogue.turns).map((speaker) => [
+          speaker,
+          withGaps(
+            turnAudio.map((audio, index) =>
+              dialogue.turns[index].speaker === speaker
+                ? audio
+                : createSilenceLike(audio, format)
+            )
+          ),
+        ])
+      )
+    : null;
+
+  return { audio: withGaps(turnAudio), stems };
+};
@@ -0,0 +1,204 @@
+// Error contract shared by the TTS API and its clients. Codes are stable;
+// messages are for display and may change.
+
+import { parseRetryAfter } from "../../libs/fetchWithRetry";
+
+export enum TTSErrorCode {
+  VALIDATION_FAILED = "validation_failed",
+  PAYLOAD_TOO_LARGE = "payload_too_large",
+  PROVIDER_UNAVAILABLE = "provider_unavailable",
+  RATE_LIMITED = "rate_limited",
+  QUOTA_EXCEEDED = "quota_exceeded",
+  UPSTREAM_UNAUTHORIZED = "upstream_unauthorized",
+  UPSTREAM_RATE_LIMITED = "upstream_rate_limited",
+  UPSTREAM_QUOTA_EXCEEDED = "upstream_quota_exceeded",
+  CONTENT_POLICY = "content_policy",
+  UPSTREAM_BAD_REQUEST = "upstream_bad_request",
+  UPSTREAM_UNAVAILABLE = "upstream_unavailable",
+  UPSTREAM_TIMEOUT = "upstream_timeout",
+  INTERNAL_ERROR = "internal_error",
+}
+
+export interface TTSErrorBody {
+  message: string;
+  error: string;
+  code: TTSErrorCode;
+  fieldErrors?: Record<string, string>;
+  chunkIndex?: number;
+  totalChunks?: number;
+  retryAfter?: number; // Seconds
+}
+
+export const TTS_ERROR_MESSAGES: Record<TTSErrorCode, string> = {
+  [TTSErrorCode.VALIDATION_FAILED]: "Please check the speech settings",
+  [TTSErrorCode.PAYLOAD_TOO_LARGE]: "The text is too long to send",
+  [TTSErrorCode.PROVIDER_UNAVAILABLE]:
+    "The selected voice provider is not available",
+  [TTSErrorCode.RATE_LIMITED]:
+    "Too many requests, please wait a moment and try again",
+  [TTSErrorCode.QUOTA_EXCEEDED]: "Your daily character quota has been used up",
+  [TTSErrorCode.UPSTREAM_UNAUTHORIZED]:
+    "The speech service rejected the server's credentials",
+  [TTSErrorCode.UPSTREAM_RATE_LIMITED]:
+    "The speech service is busy, please try again shortly",
+  [TTSErrorCode.UPSTREAM_QUOTA_EXCEEDED]:
+    "The speech service quota has been used up",
+  [TTSErrorCode.CONTENT_POLICY]:
+    "The text was rejected by the speech service's content policy",
+  [TTSErrorCode.UPSTREAM_BAD_REQUEST]:
+    "The speech service rejected the request",
+  [TTSErrorCode.UPSTREAM_UNAVAILABLE]:
+    "The speech service is temporarily unavailable",
+  [TTSErrorCode.UPSTREAM_TIMEOUT]: "The speech service took too long to answer",
+  [TTSErrorCode.INTERNAL_ERROR]: "Failed to generate speech",
+};
+
+/**
+ * Error raised inside the API with the code and HTTP status to answer with.
+ */
+export class TTSError extends Error {
+  constructor(
+    public code: TTSErrorCode,
+    message: string,
+    public status: number = 500,
+    public details: Partial<TTSErrorBody> = {}
+  ) {
+    super(message);
+    this.name = "TTSError";
+  }
+}
+
+/**
+ * JSON body sent to clients for an error. `summary` names the operation that
+ * failed.
+ */
+export const toErrorBody = (
+  error: TTSError,
+  summary = "Failed to generate speech"
+): TTSErrorBody => ({
+  message: summary,
+  error: error.message,
+  code: error.code,
+  ...error.details,
+});
+
+/**
+ * Non-2xx answer from a TTS provider, keeping what the provider said.
+ */
+export class UpstreamError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public providerCode?: string,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+/**
+ * Builds an UpstreamError from a failed provider response. Understands the
+ * OpenAI error body `{ error: { message, code, type } }` and falls back to
+ * the raw body text.
+ */
+export const createUpstreamError = async (
+  response: Response
+): Promise<UpstreamError> => {
+  const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+  const retryAfter =
+    retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined;
+  let message = `HTTP error! Status: ${response.status}`;
+  let providerCode: string | undefined;
+
+  try {
+    const text = await response.text();
+    try {
+      const { error } = JSON.parse(text);
+      message = error?.message || (typeof error === "string" ? error : message);
+      providerCode = error?.code || error?.type;
+    } catch {
+      if (text.trim()) message = text.trim().slice(0, 500);
+    }
+  } catch {
+    // Keep the status based message
+  }
+
+  return new UpstreamError(response.status, message, providerCode, retryAfter);
+};
+
+const isContentPolicyError = (error: UpstreamError) =>
+  error.providerCode === "content_policy_violation" ||
+  /content policy|safety system/i.test(error.message);
+
+/**
+ * Maps a provider failure onto the stable error codes.
+ */
+export const mapUpstreamError = (error: UpstreamError): TTSError => {
+  const details = { retryAfter: error.retryAfter };
+
+  if (error.status === 401 || error.status === 403) {
+    return new TTSError(TTSErrorCode.UPSTREAM_UNAUTHORIZED, error.message, 502);
+  }
+  if (error.status === 429) {
+    return error.providerCode === "insufficient_quota"
+      ? new TTSError(TTSErrorCode.UPSTREAM_QUOTA_EXCEEDED, error.message, 503)
+      : new TTSError(
+          TTSErrorCode.UPSTREAM_RATE_LIMITED,
+          error.message,
+          429,
+          details
+        );
+  }
+  if (isContentPolicyError(error)) {
+    return new TTSError(TTSErrorCode.CONTENT_POLICY, error.message, 422);
+  }
+  if (error.status >= 400 && error.status < 500) {
+    return new TTSError(TTSErrorCode.UPSTREAM_BAD_REQUEST, error.message, 502);
+  }
+  return new TTSError(
+    TTSErrorCode.UPSTREAM_UNAVAILABLE,
+    error.message,
+    503,
+    details
+  );
+};
+
+/**
+ * Text to show the user for an error body returned by the API.
+ */
+export const describeTTSError = (body: Partial<TTSErrorBody>): string => {
+  const fieldMessages = Object.values(body.fieldErrors || {});
+  if (fieldMessages.length > 0) return fieldMessages.join(". ");
+
+  const message =
+    (body.code && TTS_ERROR_MESSAGES[body.code]) ||
+    TTS_ERROR_MESSAGES[TTSErrorCode.INTERNAL_ERROR];
+
+  if (body.code === TTSErrorCode.RATE_LIMITED && body.retryAfter) {
+    return `${message} (retry in ${body.retryAfter}s)`;
+  }
+
+  return typeof body.chunkIndex === "number" && body.totalChunks
+    ? `${message} (part ${body.chunkIndex + 1} of ${body.totalChunks})`
+    : message;
+};
+
+/**
+ * Client-side error for a failed API response, with a displayable message.
+ */
+export class TTSResponseError extends Error {
+  constructor(public status: number, public body: Partial<TTSErrorBody>) {
+    super(describeTTSError(body));
+    this.name = "TTSResponseError";
+  }
+}
+
+export const readErrorResponse = async (
+  response: Response
+): Promise<TTSResponseError> => {
+  const body = (await response
+    .json()
+    .catch(() => ({}))) as Partial<TTSErrorBody>;
+  return new TTSResponseError(response.status, body);
+};
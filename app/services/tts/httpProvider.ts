@@ -0,0 +1,131 @@
+import { AUDIO_FORMATS, AudioFormat } from "../../constants";
+import { fetchWithRetry } from "../../libs/fetchWithRetry";
+import { createUpstreamError } from "./errors";
+import { getRetryOptions } from "./retryOptions";
+import { TTSProvider } from "./types";
+import { hasKey } from "./validation";
+
+interface HttpProviderOptions {
+  id?: string;
+  name?: string;
+  url: string;
+  apiKey?: string;
+  voices: Record<string, string>;
+  formats?: AudioFormat[];
+  maxInputLength?: number;
+}
+
+/**
+ * Parses a voice list in the form `id:Label,id:Label`. A bare id is used as
+ * its own label.
+ */
+export const parseVoiceList = (value: string): Record<string, string> =>
+  Object.fromEntries(
+    value
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [id, ...label] = entry.split(":");
+        return [id.trim(), label.join(":").trim() || id.trim()];
+      })
+  );
+
+/**
+ * Parses a format list in the form `mp3,wav`. Unknown formats are logged and
+ * left out; an empty result keeps the provider's default.
+ */
+export const parseFormatList = (value: string): AudioFormat[] | undefined => {
+  const formats = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .filter((format): format is AudioFormat => {
+      if (hasKey(AUDIO_FORMATS, format)) return true;
+      console.warn(`Ignoring unknown TTS format "${format}"`);
+      return false;
+    });
+  return formats.length > 0 ? formats : undefined;
+};
+
+/**
+ * Derives voice languages from locale-prefixed ids such as Piper's
+ * `en_US-amy-medium` or espeak's `vi`. Ids without a recognizable prefix
+ * are left out and treated as multilingual.
+ */
+export const inferVoiceLanguages = (
+  voices: Record<string, string>
+): Record<string, string[]> =>
+  Object.fromEntries(
+    Object.keys(voices).flatMap((voice) => {
+      const match = voice.match(
+        /^([a-z]{2,3})(?:[_-]([A-Za-z]{2}))?(?:[-_]|$)/
+      );
+      if (!match) return [];
+
+      const [, language, region] = match;
+      return [
+        [
+          voice,
+          region
+            ? [`${language}-${region.toLowerCase()}`, language]
+            : [language],
+        ],
+      ];
+    })
+  );
+
+/**
+ * Adapter for any backend that accepts `{ text, voice, language, speed,
+ * format }` as JSON and answers with audio bytes in that format, e.g. a small
+ * wrapper around Piper or espeak-ng.
+ */
+export const createHttpProvider = ({
+  id = "http",
+  name = "Custom HTTP",
+  url,
+  apiKey,
+  voices,
+  formats = ["mp3"],
+  maxInputLength = 4096,
+}: HttpProviderOptions): TTSProvider => ({
+  id,
+  name,
+  voices,
+  voiceLanguages: inferVoiceLanguages(voices),
+  defaultVoice: Object.keys(voices)[0] || "",
+  // Backends are expected to expose a single quality tier
+  models: ["standard"],
+  formats,
+  maxInputLength,
+  isConfigured: () => Boolean(url) && Object.keys(voices).length > 0,
+  synthesize: async ({ input, voice, language, speed, format, signal }) => {
+    const response = await fetchWithRetry(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          text: input,
+          voice,
+          language,
+          speed,
+          format,
+        }),
+      },
+      getRetryOptions(signal)
+    );
+
+    if (!response.ok) {
+      throw await createUpstreamError(response);
+    }
+    if (!response.body) {
+      throw new Error("Empty response body");
+    }
+
+    return response.body;
+  },
+});
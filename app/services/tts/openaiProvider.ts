@@ -0,0 +1,62 @@
+import { OPENAI_VOICES, TTSModel } from "../../constants";
+import { fetchWithRetry } from "../../libs/fetchWithRetry";
+import { createUpstreamError } from "./errors";
+import { getRetryOptions } from "./retryOptions";
+import { TTSProvider } from "./types";
+
+const MODEL_IDS: Record<TTSModel, string> = {
+  standard: "tts-1",
+  hd: "tts-1-hd",
+};
+
+interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export const createOpenAIProvider = ({
+  apiKey,
+  baseUrl = "https://api.openai.com/v1",
+}: OpenAIProviderOptions): TTSProvider => ({
+  id: "openai",
+  name: "OpenAI",
+  voices: OPENAI_VOICES,
+  defaultVoice: "alloy",
+  models: ["standard", "hd"],
+  formats: ["mp3", "opus", "aac", "flac", "wav", "pcm"],
+  maxInputLength: 4096,
+  isConfigured: () => Boolean(apiKey),
+  synthesize: async ({ input, voice, speed, model, format, signal }) => {
+    const response = await fetchWithRetry(
+      `${baseUrl}/audio/speech`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: MODEL_IDS[model],
+          input,
+          voice,
+          speed,
+          response_format: format,
+        }),
+      },
+      // An exhausted quota will not recover by retrying
+      getRetryOptions(signal, async (response) => {
+        const error = await createUpstreamError(response.clone());
+        return error.providerCode !== "insufficient_quota";
+      })
+    );
+
+    if (!response.ok) {
+      throw await createUpstreamError(response);
+    }
+    if (!response.body) {
+      throw new Error("Empty response body");
+    }
+
+    return response.body;
+  },
+});
@@ -0,0 +1,67 @@
+import {
+  createHttpProvider,
+  parseFormatList,
+  parseVoiceList,
+} from "./httpProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { TTSProvider, TTSProviderInfo } from "./types";
+
+const providers = new Map<string, TTSProvider>();
+
+export const registerProvider = (provider: TTSProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const unregisterProvider = (id: string) => {
+  providers.delete(id);
+};
+
+export const getDefaultProviderId = (): string =>
+  process.env.TTS_DEFAULT_PROVIDER || "openai";
+
+/**
+ * Resolves a configured provider by id, falling back to the default one.
+ * Returns null when the requested provider is unknown or not configured.
+ */
+export const getProvider = (id?: string): TTSProvider | null => {
+  const provider = providers.get(id || getDefaultProviderId());
+  return provider && provider.isConfigured() ? provider : null;
+};
+
+export const listProviders = (): TTSProviderInfo[] =>
+  Array.from(providers.values())
+    .filter((provider) => provider.isConfigured())
+    .map(
+      ({
+        id,
+        name,
+        voices,
+        voiceLanguages,
+        defaultVoice,
+        models,
+        formats,
+      }) => ({
+        id,
+        name,
+        voices,
+        voiceLanguages,
+        defaultVoice,
+        models,
+        formats,
+      })
+    );
+
+// Built-in providers, configured from the environment
+registerProvider(createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY }));
+
+if (process.env.TTS_HTTP_URL) {
+  registerProvider(
+    createHttpProvider({
+      name: process.env.TTS_HTTP_NAME,
+      url: process.env.TTS_HTTP_URL,
+      apiKey: process.env.TTS_HTTP_API_KEY,
+      voices: parseVoiceList(process.env.TTS_HTTP_VOICES || ""),
+      formats: parseFormatList(process.env.TTS_HTTP_FORMATS || ""),
+    })
+  );
+}
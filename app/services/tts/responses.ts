@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { TTS_CONFIG } from "../../constants";
+import { concatUint8Arrays } from "../../libs/mp3Helpers";
+import { TTSError, TTSErrorCode, toErrorBody } from "./errors";
+
+export const errorResponse = (error: TTSError, summary?: string) =>
+  NextResponse.json(toErrorBody(error, summary), {
+    status: error.status,
+    headers: error.details.retryAfter
+      ? { "Retry-After": String(error.details.retryAfter) }
+      : undefined,
+  });
+
+export const validationError = (
+  fieldErrors: Record<string, string>,
+  summary?: string
+) =>
+  errorResponse(
+    new TTSError(TTSErrorCode.VALIDATION_FAILED, "Invalid request", 400, {
+      fieldErrors,
+    }),
+    summary
+  );
+
+// `unit` names what the limiter counts as characters, e.g. "kilobyte"
+export const rateLimitError = (
+  reason: string | undefined,
+  retryAfter: number,
+  unit = "character"
+) => {
+  const isDaily = reason === "daily";
+  return new TTSError(
+    isDaily ? TTSErrorCode.QUOTA_EXCEEDED : TTSErrorCode.RATE_LIMITED,
+    isDaily
+      ? `Daily ${unit} quota exceeded`
+      : `Too many ${reason === "characters" ? `${unit}s` : reason} per minute`,
+    429,
+    { retryAfter }
+  );
+};
+
+export const providerUnavailableError = (providerId?: string) =>
+  errorResponse(
+    new TTSError(
+      TTSErrorCode.PROVIDER_UNAVAILABLE,
+      `TTS provider "${providerId}" is not available`,
+      400,
+      { fieldErrors: { provider: `Unknown provider "${providerId}"` } }
+    )
+  );
+
+type JsonBodyResult =
+  | { body: unknown; response?: undefined }
+  | { body?: undefined; response: Response };
+
+const bodyTooLargeResponse = () =>
+  errorResponse(
+    new TTSError(
+      TTSErrorCode.PAYLOAD_TOO_LARGE,
+      `Request body exceeds ${TTS_CONFIG.MAX_BODY_BYTES} bytes`,
+      413
+    )
+  );
+
+/**
+ * Reads the raw body, or returns null once it is larger than `maxBytes`. A
+ * larger Content-Length is refused up front, and the stream is cancelled as
+ * soon as it passes the limit, so oversized bodies are never held in memory.
+ */
+export const readBodyBytes = async (
+  request: Request,
+  maxBytes: number
+): Promise<Uint8Array | null> => {
+  const declaredLength = Number(request.headers.get("Content-Length"));
+  if (declaredLength > maxBytes) return null;
+
+  const parts: Uint8Array[] = [];
+  let byteLength = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      byteLength += value.byteLength;
+      if (byteLength > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      parts.push(value);
+    }
+  }
+
+  return concatUint8Arrays(parts);
+};
+
+/**
+ * Reads a JSON body no larger than MAX_BODY_BYTES. On failure, returns the
+ * error response to answer with instead.
+ */
+export const readJsonBody = async (
+  request: Request
+): Promise<JsonBodyResult> => {
+  const bytes = await readBodyBytes(request, TTS_CONFIG.MAX_BODY_BYTES);
+  if (!bytes) return { response: bodyTooLargeResponse() };
+
+  try {
+    return { body: JSON.parse(new TextDecoder().decode(bytes)) };
+  } catch {
+    return {
+      response: validationError({ body: "Request body must be valid JSON" }),
+    };
+  }
+};
@@ -0,0 +1,15 @@
+import { UPSTREAM_RETRY_CONFIG } from "../../constants";
+import { RetryOptions } from "../../libs/fetchWithRetry";
+
+export const getRetryOptions = (
+  signal?: AbortSignal,
+  shouldRetry?: RetryOptions["shouldRetry"]
+): RetryOptions => ({
+  timeoutMs: UPSTREAM_RETRY_CONFIG.TIMEOUT_MS,
+  retries: UPSTREAM_RETRY_CONFIG.RETRIES,
+  baseDelayMs: UPSTREAM_RETRY_CONFIG.BASE_DELAY_MS,
+  maxDelayMs: UPSTREAM_RETRY_CONFIG.MAX_DELAY_MS,
+  maxRetryAfterMs: UPSTREAM_RETRY_CONFIG.MAX_RETRY_AFTER_MS,
+  signal,
+  shouldRetry,
+});
@@ -0,0 +1,340 @@
+import { AUDIO_FORMATS, AudioFormat, TTS_CONFIG } from "../../constants";
+import {
+  mapWithConcurrency,
+  scheduleWithConcurrency,
+} from "../../libs/asyncHelpers";
+import {
+  canConcatFormat,
+  concatAudioBuffers,
+  getStreamSegment,
+} from "../../libs/audioConcat";
+import { FetchTimeoutError } from "../../libs/fetchWithRetry";
+import { createSilence } from "../../libs/silence";
+import { parseSpeechMarkup } from "../../libs/speechMarkup";
+import { readStreamToBuffer } from "../../libs/streamHelpers";
+import { splitTextIntoChunks } from "../../libs/textChunker";
+import synthesisCache, {
+  CachedSynthesis,
+  createSynthesisKey,
+} from "../synthesisCache";
+import {
+  TTSError,
+  TTSErrorCode,
+  UpstreamError,
+  mapUpstreamError,
+} from "./errors";
+import { prepareTextForSpeech } from "./textNormalizer";
+import { TTSProvider } from "./types";
+import { FieldErrors, TTSRequest } from "./validation";
+import { resolveVoice } from "./voices";
+
+export class ChunkSynthesisError extends Error {
+  constructor(
+    public chunkIndex: number,
+    public totalChunks: number,
+    public reason: unknown
+  ) {
+    super(
+      `Chunk ${chunkIndex + 1} of ${totalChunks} failed: ${
+        reason instanceof Error ? reason.message : "Unknown error"
+      }`
+    );
+    this.name = "ChunkSynthesisError";
+  }
+}
+
+export const toTTSError = (error: unknown): TTSError => {
+  if (error instanceof TTSError) return error;
+  if (error instanceof UpstreamError) return mapUpstreamError(error);
+  if (error instanceof FetchTimeoutError) {
+    return new TTSError(TTSErrorCode.UPSTREAM_TIMEOUT, error.message, 504);
+  }
+  if (error instanceof ChunkSynthesisError) {
+    const { code, status, details } = toTTSError(error.reason);
+    return new TTSError(
+      code,
+      error.message,
+      status,
+      error.totalChunks > 1
+        ? {
+            ...details,
+            chunkIndex: error.chunkIndex,
+            totalChunks: error.totalChunks,
+          }
+        : details
+    );
+  }
+
+  return new TTSError(
+    TTSErrorCode.INTERNAL_ERROR,
+    error instanceof Error ? error.message : "Unknown error"
+  );
+};
+
+export interface SynthesisPlan {
+  provider: TTSProvider;
+  request: TTSRequest;
+  // Text actually sent to the provider, after optional normalization
+  input: string;
+  voice: string;
+  cacheKey: string;
+  contentType: string;
+  chunks: string[];
+}
+
+/**
+ * Works out what to send to the provider for a validated request: the
+ * normalized text, the voice, the cache key and the provider-sized chunks.
+ */
+export const planSynthesis = (
+  request: TTSRequest,
+  provider: TTSProvider
+): SynthesisPlan => {
+  const { text, voice, language, isOptimizeWithAI, speed, model, format } =
+    request;
+  const input = isOptimizeWithAI ? prepareTextForSpeech(text, language) : text;
+  // An explicit voice wins; otherwise pick one that fits the language
+  const selectedVoice = voice ?? resolveVoice(provider, undefined, language);
+
+  return {
+    provider,
+    request,
+    input,
+    voice: selectedVoice,
+    cacheKey: createSynthesisKey({
+      provider: provider.id,
+      text: input,
+      voice: selectedVoice,
+      language,
+      model,
+      speed,
+      format,
+    }),
+    contentType: AUDIO_FORMATS[format].mimeType,
+    // Long scripts exceed the provider input limit, so synthesize them in
+    // sentence-aligned chunks and stitch the frames back together
+    chunks: splitTextIntoChunks(
+      input,
+      Math.min(provider.maxInputLength, TTS_CONFIG.MAX_CHUNK_LENGTH)
+    ),
+  };
+};
+
+/**
+ * Field errors for a plan that cannot be carried out, e.g. a long text in a
+ * format whose files cannot be joined.
+ */
+export const validatePlan = ({
+  chunks,
+  request,
+}: SynthesisPlan): Record<string, string> =>
+  chunks.length > 1 && !canConcatFormat(request.format)
+    ? {
+        format: `Text is too long for ${
+          AUDIO_FORMATS[request.format].label
+        } output, use MP3, AAC, WAV or PCM instead`,
+      }
+    : {};
+
+/**
+ * Starts the provider call for one chunk of a plan. Failures are wrapped in
+ * a ChunkSynthesisError carrying the chunk position.
+ */
+export const synthesizeChunk = async (
+  plan: SynthesisPlan,
+  index: number,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> => {
+  const { language, speed, model, format } = plan.request;
+  try {
+    return await plan.provider.synthesize({
+      input: plan.chunks[index],
+      voice: plan.voice,
+      language,
+      speed,
+      model,
+      format,
+      signal,
+    });
+  } catch (error) {
+    throw new ChunkSynthesisError(index, plan.chunks.length, error);
+  }
+};
+
+export const readChunk = async (
+  plan: SynthesisPlan,
+  index: number,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> => {
+  const body = await synthesizeChunk(plan, index, signal);
+  try {
+    return await readStreamToBuffer(body);
+  } catch (error) {
+    throw new ChunkSynthesisError(index, plan.chunks.length, error);
+  }
+};
+
+export const cacheSynthesis = (plan: SynthesisPlan, audio: ArrayBuffer) =>
+  synthesisCache.set(plan.cacheKey, {
+    audio,
+    contentType: plan.contentType,
+    chunks: plan.chunks.length,
+  });
+
+/**
+ * Synthesizes a whole plan into one buffer, going through the cache.
+ */
+export const synthesizeToBuffer = async (
+  plan: SynthesisPlan,
+  signal?: AbortSignal
+): Promise<CachedSynthesis & { isCached: boolean }> => {
+  const cached = synthesisCache.get(plan.cacheKey);
+  if (cached) return { ...cached, isCached: true };
+
+  const buffers = await mapWithConcurrency(
+    plan.chunks,
+    TTS_CONFIG.CHUNK_CONCURRENCY,
+    (_, index) => readChunk(plan, index, signal)
+  );
+  const audio = concatAudioBuffers(buffers, plan.request.format);
+  cacheSynthesis(plan, audio);
+
+  return {
+    audio,
+    contentType: plan.contentType,
+    chunks: plan.chunks.length,
+    isCached: false,
+  };
+};
+
+/**
+ * Streams separately produced parts as one file, in order, while later parts
+ * are still being produced. `onComplete` receives the joined audio. A failed
+ * part errors the stream; cancelling it aborts `abortController`.
+ */
+export const createPartsStream = (
+  parts: Promise<ArrayBuffer>[],
+  format: AudioFormat,
+  abortController: AbortController,
+  onComplete?: (audio: ArrayBuffer) => void
+): ReadableStream<Uint8Array> => {
+  let nextIndex = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        if (nextIndex === parts.length) {
+          controller.close();
+          onComplete?.(concatAudioBuffers(await Promise.all(parts), format));
+          return;
+        }
+
+        const index = nextIndex++;
+        controller.enqueue(getStreamSegment(await parts[index], format, index));
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error("Error in TTS API stream:", error);
+        }
+        controller.error(error);
+      }
+    },
+    cancel: (reason) => abortController.abort(reason),
+  });
+};
+
+export type MarkupPart =
+  | { type: "speech"; plan: SynthesisPlan }
+  | { type: "pause"; durationMs: number };
+
+/**
+ * Splits a markup request into speech parts, each planned with its own voice
+ * and speed, and pauses. Markup problems come back as field errors.
+ */
+export const planMarkupSynthesis = (
+  request: TTSRequest,
+  provider: TTSProvider
+):
+  | { parts: MarkupPart[]; fieldErrors?: undefined }
+  | { parts?: undefined; fieldErrors: FieldErrors } => {
+  const { segments, errors } = parseSpeechMarkup(request.text, {
+    voices: Object.keys(provider.voices),
+  });
+  if (errors.length > 0) {
+    return {
+      fieldErrors: { text: errors.map(({ message }) => message).join(". ") },
+    };
+  }
+  if (!segments.some((segment) => segment.type === "speech")) {
+    return { fieldErrors: { text: "Markup contains no text to speak" } };
+  }
+
+  const parts = segments.map((segment): MarkupPart => {
+    if (segment.type === "pause") return segment;
+
+    const speed = Math.min(
+      TTS_CONFIG.MAX_SPEED,
+      Math.max(TTS_CONFIG.MIN_SPEED, request.speed * segment.rate)
+    );
+    return {
+      type: "speech",
+      plan: planSynthesis(
+        {
+          ...request,
+          text: segment.text,
+          voice: segment.voice ?? request.voice,
+          speed: Number(speed.toFixed(2)),
+          markup: false,
+        },
+        provider
+      ),
+    };
+  });
+
+  const planErrors = parts.reduce<FieldErrors>(
+    (errors, part) =>
+      part.type === "speech"
+        ? { ...errors, ...validatePlan(part.plan) }
+        : errors,
+    {}
+  );
+  if (parts.length > 1 && !canConcatFormat(request.format)) {
+    planErrors.format = `Pauses and voice switches need MP3, AAC, WAV or PCM output, not ${
+      AUDIO_FORMATS[request.format].label
+    }`;
+  }
+  if (Object.keys(planErrors).length > 0) return { fieldErrors: planErrors };
+
+  return { parts };
+};
+
+/**
+ * Synthesizes markup parts, generating silence for pauses. Silence is shaped
+ * after the first speech part, which is therefore started right away.
+ */
+export const synthesizeMarkupParts = (
+  parts: MarkupPart[],
+  format: AudioFormat,
+  signal?: AbortSignal
+): Promise<ArrayBuffer>[] => {
+  const speak = async (plan: SynthesisPlan) =>
+    (await synthesizeToBuffer(plan, signal)).audio;
+
+  const referenceIndex = parts.findIndex((part) => part.type === "speech");
+  let reference: Promise<ArrayBuffer> | null = null;
+  const getReference = () => {
+    const part = parts[referenceIndex];
+    if (!reference && part.type === "speech") reference = speak(part.plan);
+    return reference as Promise<ArrayBuffer>;
+  };
+
+  return scheduleWithConcurrency(
+    parts,
+    TTS_CONFIG.CHUNK_CONCURRENCY,
+    async (part, index) => {
+      if (part.type === "pause") {
+        return createSilence(format, part.durationMs, await getReference());
+      }
+      return index === referenceIndex ? getReference() : speak(part.plan);
+    }
+  );
+};
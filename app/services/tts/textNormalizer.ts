@@ -0,0 +1,504 @@
+// Rule-based text preparation applied before synthesis when "Optimize with
+// AI" is on. Spoken forms are produced for numbers, dates, times,
+// abbreviations and URLs, and punctuation is tidied so the provider pauses
+// where a reader would. Only languages in LANGUAGE_RULES (English and
+// Vietnamese) get the spoken forms; every other language only gets the
+// punctuation fixes.
+
+interface LanguageRules {
+  thousandsSeparator: string;
+  decimalSeparator: string;
+  numberToWords: (value: number) => string;
+  ordinalToWords: (value: number) => string;
+  readDate: (day: number, month: number, year: number) => string;
+  // Word that already introduces a date in running text and is part of the
+  // spoken form, so it is not repeated
+  datePrefix?: string;
+  readTime: (hours: number, minutes: number) => string;
+  words: {
+    point: string;
+    percent: string;
+    dot: string;
+    slash: string;
+    at: string;
+    dash: string;
+    underscore: string;
+  };
+  abbreviations: Record<string, string>;
+  currencies: { pattern: RegExp; unit: string }[];
+  dayFirst: boolean;
+}
+
+// Beyond this numbers are read digit by digit
+const MAX_SPOKEN_NUMBER = 1e12;
+
+// English
+
+const EN_ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const EN_TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+const EN_SCALES = ["", "thousand", "million", "billion"];
+const EN_MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+const enBelowThousand = (value: number): string => {
+  if (value < 20) return EN_ONES[value];
+  if (value < 100) {
+    const unit = value % 10;
+    return EN_TENS[Math.floor(value / 10)] + (unit ? `-${EN_ONES[unit]}` : "");
+  }
+
+  const rest = value % 100;
+  return `${EN_ONES[Math.floor(value / 100)]} hundred${
+    rest ? ` ${enBelowThousand(rest)}` : ""
+  }`;
+};
+
+const enNumberToWords = (value: number): string => {
+  if (value === 0) return EN_ONES[0];
+
+  const parts: string[] = [];
+  for (let scale = 0; value > 0; scale++, value = Math.floor(value / 1000)) {
+    const group = value % 1000;
+    if (group) {
+      parts.unshift(
+        `${enBelowThousand(group)}${scale ? ` ${EN_SCALES[scale]}` : ""}`
+      );
+    }
+  }
+
+  return parts.join(" ");
+};
+
+const enOrdinalToWords = (value: number): string => {
+  const words = enNumberToWords(value);
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (EN_IRREGULAR_ORDINALS[last]) return EN_IRREGULAR_ORDINALS[last];
+    if (last.endsWith("y")) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+};
+
+const enYearToWords = (year: number): string => {
+  if (year < 1100 || year >= 2100 || (year >= 2000 && year < 2010)) {
+    return enNumberToWords(year);
+  }
+
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (low === 0) return `${enNumberToWords(high)} hundred`;
+  if (low < 10) return `${enNumberToWords(high)} oh ${enNumberToWords(low)}`;
+  return `${enNumberToWords(high)} ${enNumberToWords(low)}`;
+};
+
+const ENGLISH: LanguageRules = {
+  thousandsSeparator: ",",
+  decimalSeparator: ".",
+  numberToWords: enNumberToWords,
+  ordinalToWords: enOrdinalToWords,
+  readDate: (day, month, year) =>
+    `${EN_MONTHS[month - 1]} ${enOrdinalToWords(day)}, ${enYearToWords(year)}`,
+  readTime: (hours, minutes) => {
+    if (minutes === 0) return `${enNumberToWords(hours)} o'clock`;
+    if (minutes < 10) {
+      return `${enNumberToWords(hours)} oh ${enNumberToWords(minutes)}`;
+    }
+    return `${enNumberToWords(hours)} ${enNumberToWords(minutes)}`;
+  },
+  words: {
+    point: "point",
+    percent: "percent",
+    dot: "dot",
+    slash: "slash",
+    at: "at",
+    dash: "dash",
+    underscore: "underscore",
+  },
+  abbreviations: {
+    "Mr.": "Mister",
+    "Mrs.": "Missus",
+    "Ms.": "Miz",
+    "Dr.": "Doctor",
+    "Prof.": "Professor",
+    "Jr.": "Junior",
+    "Sr.": "Senior",
+    "etc.": "et cetera",
+    "e.g.": "for example",
+    "i.e.": "that is",
+    "vs.": "versus",
+    "approx.": "approximately",
+    "No.": "number",
+  },
+  currencies: [
+    { pattern: /\$(\d[\d,]*(?:\.\d+)?)/g, unit: "dollars" },
+    { pattern: /€(\d[\d,]*(?:\.\d+)?)/g, unit: "euros" },
+    { pattern: /£(\d[\d,]*(?:\.\d+)?)/g, unit: "pounds" },
+  ],
+  dayFirst: false,
+};
+
+// Vietnamese
+
+const VI_DIGITS = [
+  "không",
+  "một",
+  "hai",
+  "ba",
+  "bốn",
+  "năm",
+  "sáu",
+  "bảy",
+  "tám",
+  "chín",
+];
+const VI_SCALES = ["", "nghìn", "triệu", "tỷ"];
+
+const viBelowHundred = (value: number): string => {
+  if (value < 10) return VI_DIGITS[value];
+
+  const tens = Math.floor(value / 10);
+  const unit = value % 10;
+  const unitWord =
+    unit === 0
+      ? ""
+      : unit === 5
+      ? " lăm"
+      : unit === 1 && tens > 1
+      ? " mốt"
+      : unit === 4 && tens > 1
+      ? " tư"
+      : ` ${VI_DIGITS[unit]}`;
+
+  return `${tens === 1 ? "mười" : `${VI_DIGITS[tens]} mươi`}${unitWord}`;
+};
+
+const viBelowThousand = (value: number, isLeading: boolean): string => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (isLeading && hundreds === 0) return viBelowHundred(rest);
+
+  const restWords =
+    rest === 0
+      ? ""
+      : rest < 10
+      ? ` linh ${VI_DIGITS[rest]}`
+      : ` ${viBelowHundred(rest)}`;
+  return `${VI_DIGITS[hundreds]} trăm${restWords}`;
+};
+
+const viNumberToWords = (value: number): string => {
+  if (value === 0) return VI_DIGITS[0];
+
+  const groups: number[] = [];
+  for (; value > 0; value = Math.floor(value / 1000)) {
+    groups.unshift(value % 1000);
+  }
+
+  return groups
+    .map((group, index) => {
+      if (group === 0) return "";
+      const scale = VI_SCALES[groups.length - 1 - index];
+      return `${viBelowThousand(group, index === 0)}${
+        scale ? ` ${scale}` : ""
+      }`;
+    })
+    .filter(Boolean)
+    .join(" ");
+};
+
+const VIETNAMESE: LanguageRules = {
+  thousandsSeparator: ".",
+  decimalSeparator: ",",
+  numberToWords: viNumberToWords,
+  ordinalToWords: (value) =>
+    value === 1
+      ? "thứ nhất"
+      : value === 4
+      ? "thứ tư"
+      : `thứ ${viNumberToWords(value)}`,
+  readDate: (day, month, year) =>
+    `ngày ${viNumberToWords(day)} tháng ${viNumberToWords(
+      month
+    )} năm ${viNumberToWords(year)}`,
+  datePrefix: "ngày",
+  readTime: (hours, minutes) =>
+    `${viNumberToWords(hours)} giờ${
+      minutes ? ` ${viNumberToWords(minutes)} phút` : ""
+    }`,
+  words: {
+    point: "phẩy",
+    percent: "phần trăm",
+    dot: "chấm",
+    slash: "gạch chéo",
+    at: "a còng",
+    dash: "gạch ngang",
+    underscore: "gạch dưới",
+  },
+  abbreviations: {
+    "TP.": "thành phố",
+    "Tp.": "thành phố",
+    "PGS.": "phó giáo sư",
+    "GS.": "giáo sư",
+    "TS.": "tiến sĩ",
+    "ThS.": "thạc sĩ",
+    "BS.": "bác sĩ",
+    "v.v.": "vân vân",
+    UBND: "ủy ban nhân dân",
+    HCM: "Hồ Chí Minh",
+  },
+  currencies: [
+    {
+      pattern: /(\d[\d.]*(?:,\d+)?)\s?(?:VNĐ|VND|vnđ|đ)(?![\p{L}])/gu,
+      unit: "đồng",
+    },
+    { pattern: /\$(\d[\d.]*(?:,\d+)?)/g, unit: "đô la" },
+  ],
+  dayFirst: true,
+};
+
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  en: ENGLISH,
+  vi: VIETNAMESE,
+};
+
+// English variants that write dates day first
+const DAY_FIRST_LOCALES = ["en-uk", "en-au"];
+
+const getRules = (language: string): LanguageRules | null => {
+  const rules =
+    LANGUAGE_RULES[language] || LANGUAGE_RULES[language.split("-")[0]];
+  if (!rules) return null;
+
+  return DAY_FIRST_LOCALES.includes(language)
+    ? { ...rules, dayFirst: true }
+    : rules;
+};
+
+/**
+ * Whether `language` gets numbers, dates, abbreviations and URLs expanded,
+ * not just its punctuation fixed.
+ */
+export const hasSpeechRules = (language: string) =>
+  getRules(language.toLowerCase()) !== null;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const readDigits = (digits: string, rules: LanguageRules) =>
+  Array.from(digits)
+    .map((digit) => rules.numberToWords(Number(digit)))
+    .join(" ");
+
+// Reads a number written with the language's separators, e.g. 1,234.5
+const readNumber = (written: string, rules: LanguageRules): string => {
+  const [integerPart, decimalPart] = written
+    .split(rules.thousandsSeparator)
+    .join("")
+    .split(rules.decimalSeparator);
+  const value = Number(integerPart);
+
+  const integerWords =
+    value < MAX_SPOKEN_NUMBER
+      ? rules.numberToWords(value)
+      : readDigits(integerPart, rules);
+
+  return decimalPart
+    ? `${integerWords} ${rules.words.point} ${readDigits(decimalPart, rules)}`
+    : integerWords;
+};
+
+const expandUrls = (text: string, rules: LanguageRules) => {
+  const speak = (value: string) =>
+    value
+      .replace(/\./g, ` ${rules.words.dot} `)
+      .replace(/\//g, ` ${rules.words.slash} `)
+      .replace(/@/g, ` ${rules.words.at} `)
+      .replace(/-/g, ` ${rules.words.dash} `)
+      .replace(/_/g, ` ${rules.words.underscore} `)
+      .replace(/\s+/g, " ")
+      .trim();
+
+  return text
+    .replace(/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, speak)
+    .replace(/\b(?:https?:\/\/|www\.)[^\s]+/gi, (url) => {
+      // Keep sentence punctuation that trails the URL
+      const [, address, trailing] = url.match(/^(.*?)([.,!?;:)]*)$/) || [];
+      const readable = address
+        .replace(/^https?:\/\//i, "")
+        .replace(/^www\./i, "")
+        .replace(/\/$/, "");
+      return `${speak(readable)}${trailing}`;
+    });
+};
+
+const expandDates = (text: string, rules: LanguageRules) => {
+  const read = (match: string, day: number, month: number, year: number) =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 31
+      ? rules.readDate(day, month, year)
+      : match;
+  const prefix = rules.datePrefix
+    ? `(?:${escapeRegExp(rules.datePrefix)}\\s+)?`
+    : "";
+
+  return text
+    .replace(
+      new RegExp(`${prefix}\\b(\\d{4})-(\\d{1,2})-(\\d{1,2})\\b`, "gi"),
+      (match, year, month, day) =>
+        read(match, Number(day), Number(month), Number(year))
+    )
+    .replace(
+      new RegExp(`${prefix}\\b(\\d{1,2})[/.](\\d{1,2})[/.](\\d{4})\\b`, "gi"),
+      (match, first, second, year) =>
+        rules.dayFirst
+          ? read(match, Number(first), Number(second), Number(year))
+          : read(match, Number(second), Number(first), Number(year))
+    );
+};
+
+const expandTimes = (text: string, rules: LanguageRules) =>
+  text.replace(/\b([01]?\d|2[0-3]):([0-5]\d)\b/g, (_, hours, minutes) =>
+    rules.readTime(Number(hours), Number(minutes))
+  );
+
+const expandAbbreviations = (text: string, rules: LanguageRules) =>
+  Object.entries(rules.abbreviations).reduce(
+    (result, [abbreviation, expansion]) =>
+      result.replace(
+        new RegExp(
+          `(^|[^\\p{L}])${escapeRegExp(abbreviation)}(?![\\p{L}])`,
+          "gu"
+        ),
+        `$1${expansion}`
+      ),
+    text
+  );
+
+const expandNumbers = (text: string, rules: LanguageRules) => {
+  const thousands = escapeRegExp(rules.thousandsSeparator);
+  const decimal = escapeRegExp(rules.decimalSeparator);
+  const numberPattern = `\\d{1,3}(?:${thousands}\\d{3})+(?:${decimal}\\d+)?|\\d+(?:${decimal}\\d+)?`;
+
+  let result = rules.currencies.reduce(
+    (current, { pattern, unit }) =>
+      current.replace(
+        pattern,
+        (_, amount) => `${readNumber(amount, rules)} ${unit}`
+      ),
+    text
+  );
+
+  result = result
+    .replace(/\b(\d+)(?:st|nd|rd|th)\b/g, (_, value) =>
+      rules.ordinalToWords(Number(value))
+    )
+    .replace(
+      new RegExp(`(${numberPattern})\\s?%`, "g"),
+      (_, value) => `${readNumber(value, rules)} ${rules.words.percent}`
+    );
+
+  // Digits glued to the end of a word (e.g. "mp3") are left alone
+  return result.replace(
+    new RegExp(`(?<![\\p{L}\\d])(?:${numberPattern})(?![\\d])`, "gu"),
+    (value) => readNumber(value, rules)
+  );
+};
+
+/**
+ * Tidies punctuation for better prosody. Applied for every language.
+ */
+export const fixPunctuation = (text: string): string =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[*`~]+|^#+\s*/gm, "")
+    .replace(/\.{3,}/g, "…")
+    .replace(/([!?])\1+/g, "$1")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ +([,.!?;:…])/g, "$1")
+    .replace(/\s+[-–—]\s+/g, ", ")
+    .replace(/([,;!?])(?=\p{L})/gu, "$1 ")
+    // Not between single characters, so initialisms such as U.S.A stay whole
+    .replace(
+      /(?<!(?:^|[^\p{L}\p{N}])[\p{L}\p{N}])\.(?=\p{Lu})|\.(?=\p{Lu}[\p{L}\p{N}])/gu,
+      ". "
+    )
+    // Lines such as headings or list items get a full stop so they are not
+    // run into the next line
+    .replace(/([^\s.!?…:;,。！？])[ \t]*$/gm, "$1.")
+    .trim();
+
+/**
+ * Rewrites `text` into a form that reads naturally for `language`.
+ * Languages without dedicated rules only get punctuation fixes.
+ */
+export const prepareTextForSpeech = (
+  text: string,
+  language: string
+): string => {
+  const rules = getRules(language.toLowerCase());
+  if (!rules) return fixPunctuation(text);
+
+  const steps = [
+    expandUrls,
+    expandDates,
+    expandTimes,
+    expandAbbreviations,
+    expandNumbers,
+  ];
+
+  return fixPunctuation(
+    steps.reduce((result, step) => step(result, rules), text)
+  );
+};
@@ -0,0 +1,56 @@
+import { AudioFormat, TTSModel } from "../../constants";
+import { TTSErrorBody } from "./errors";
+
+export interface SynthesisRequest {
+  input: string;
+  voice: string;
+  language?: string;
+  speed: number;
+  model: TTSModel;
+  format: AudioFormat;
+  // Aborted when the client goes away
+  signal?: AbortSignal;
+}
+
+export interface TTSProvider {
+  id: string;
+  name: string;
+  voices: Record<string, string>;
+  // Language codes per voice; voices left out are multilingual
+  voiceLanguages?: Record<string, string[]>;
+  defaultVoice: string;
+  models: TTSModel[];
+  formats: AudioFormat[];
+  maxInputLength: number;
+  isConfigured: () => boolean;
+  // Resolves once the provider starts answering, with the audio as a stream
+  synthesize: (
+    request: SynthesisRequest
+  ) => Promise<ReadableStream<Uint8Array>>;
+}
+
+// Serializable subset sent to the client to build the provider/voice pickers
+export interface TTSProviderInfo {
+  id: string;
+  name: string;
+  voices: Record<string, string>;
+  voiceLanguages?: Record<string, string[]>;
+  defaultVoice: string;
+  models: TTSModel[];
+  formats: AudioFormat[];
+}
+
+// One line of the NDJSON stream answered by the batch endpoint. `index` is
+// the item's position in the request.
+export type BatchEvent =
+  | { type: "start"; index: number }
+  | {
+      type: "result";
+      index: number;
+      audio: string; // Base64
+      contentType: string;
+      chunks: number;
+      isCached: boolean;
+    }
+  | { type: "error"; index: number; error: TTSErrorBody }
+  | { type: "end" };
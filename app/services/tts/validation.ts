@@ -0,0 +1,294 @@
+import {
+  AUDIO_FORMATS,
+  AudioFormat,
+  LANGUAGES,
+  TTS_CONFIG,
+  TTS_MODELS,
+  TTSModel,
+} from "../../constants";
+import {
+  DEFAULT_TURN_GAP_MS,
+  DialogueScript,
+  formatDialogueScript,
+} from "../../libs/dialogueScript";
+import { MAX_PAUSE_MS } from "../../libs/speechMarkup";
+import { TTSProvider } from "./types";
+
+export interface TTSRequest {
+  text: string;
+  provider?: string;
+  voice?: string;
+  language: string;
+  isOptimizeWithAI: boolean;
+  // Text contains speech markup (pauses, voice switches, ...)
+  markup: boolean;
+  speed: number;
+  model: TTSModel;
+  format: AudioFormat;
+}
+
+export type FieldErrors = Record<string, string>;
+
+type ValidationResult<T> =
+  | { value: T; fieldErrors?: undefined }
+  | { value?: undefined; fieldErrors: FieldErrors };
+
+export const hasKey = (record: object, key: unknown): key is string =>
+  typeof key === "string" && Object.prototype.hasOwnProperty.call(record, key);
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || (typeof value === "string" && value.length > 0);
+
+/**
+ * Checks the shape of a text-to-speech request body and fills in defaults.
+ */
+export const validateTTSRequest = (
+  body: unknown
+): ValidationResult<TTSRequest> => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { fieldErrors: { body: "Request body must be a JSON object" } };
+  }
+
+  const {
+    text,
+    provider,
+    voice,
+    language = "en",
+    isOptimizeWithAI = false,
+    markup = false,
+    speed = 1,
+    model = "standard",
+    format = "mp3",
+  } = body as Record<string, unknown>;
+  const fieldErrors: FieldErrors = {};
+
+  if (typeof text !== "string" || !text.trim()) {
+    fieldErrors.text = "Text cannot be empty";
+  } else if (text.length > TTS_CONFIG.MAX_TEXT_LENGTH) {
+    fieldErrors.text = `Text must be at most ${TTS_CONFIG.MAX_TEXT_LENGTH} characters`;
+  }
+
+  if (!isOptionalString(provider)) {
+    fieldErrors.provider = "Provider must be a non-empty string";
+  }
+  if (!isOptionalString(voice)) {
+    fieldErrors.voice = "Voice must be a non-empty string";
+  }
+  if (
+    typeof language !== "string" ||
+    !hasKey(LANGUAGES, language.toLowerCase())
+  ) {
+    fieldErrors.language = `Unsupported language "${language}"`;
+  }
+  if (typeof isOptimizeWithAI !== "boolean") {
+    fieldErrors.isOptimizeWithAI = "isOptimizeWithAI must be a boolean";
+  }
+  if (typeof markup !== "boolean") {
+    fieldErrors.markup = "markup must be a boolean";
+  }
+  if (
+    typeof speed !== "number" ||
+    !Number.isFinite(speed) ||
+    speed < TTS_CONFIG.MIN_SPEED ||
+    speed > TTS_CONFIG.MAX_SPEED
+  ) {
+    fieldErrors.speed = `Speed must be between ${TTS_CONFIG.MIN_SPEED} and ${TTS_CONFIG.MAX_SPEED}`;
+  }
+  if (!hasKey(TTS_MODELS, model)) {
+    fieldErrors.model = `Model must be one of ${Object.keys(TTS_MODELS).join(
+      ", "
+    )}`;
+  }
+  if (!hasKey(AUDIO_FORMATS, format)) {
+    fieldErrors.format = `Format must be one of ${Object.keys(
+      AUDIO_FORMATS
+    ).join(", ")}`;
+  }
+
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+
+  return {
+    value: {
+      text: text as string,
+      provider: provider as string | undefined,
+      voice: voice as string | undefined,
+      language: (language as string).toLowerCase(),
+      isOptimizeWithAI: isOptimizeWithAI as boolean,
+      markup: markup as boolean,
+      speed: speed as number,
+      model: model as TTSModel,
+      format: format as AudioFormat,
+    },
+  };
+};
+
+/**
+ * Checks the options that depend on what the chosen provider offers.
+ */
+export const validateProviderOptions = (
+  request: TTSRequest,
+  provider: TTSProvider
+): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+
+  if (request.voice !== undefined && !hasKey(provider.voices, request.voice)) {
+    fieldErrors.voice = `${provider.name} has no voice "${request.voice}"`;
+  }
+  if (!provider.models.includes(request.model)) {
+    fieldErrors.model = `${provider.name} does not offer the ${request.model} model`;
+  }
+  if (!provider.formats.includes(request.format)) {
+    fieldErrors.format = `${provider.name} cannot produce ${
+      AUDIO_FORMATS[request.format].label
+    } audio`;
+  }
+
+  return fieldErrors;
+};
+
+export interface BatchItemInput {
+  text: string;
+  voice?: string;
+}
+
+/**
+ * Checks a batch body: `items` holds `{ text, voice? }` entries and every
+ * other field is a setting shared by all items. Item errors are keyed as
+ * `items.<index>.<field>`.
+ */
+export const validateBatchRequest = (
+  body: unknown
+): ValidationResult<TTSRequest[]> => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { fieldErrors: { body: "Request body must be a JSON object" } };
+  }
+
+  const { items, ...settings } = body as Record<string, unknown>;
+  if (!Array.isArray(items) || items.length === 0) {
+    return { fieldErrors: { items: "Items must be a non-empty array" } };
+  }
+  if (items.length > TTS_CONFIG.MAX_BATCH_ITEMS) {
+    return {
+      fieldErrors: {
+        items: `A batch can hold at most ${TTS_CONFIG.MAX_BATCH_ITEMS} items`,
+      },
+    };
+  }
+
+  const fieldErrors: FieldErrors = {};
+  const requests: TTSRequest[] = [];
+
+  items.forEach((item, index) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      fieldErrors[`items.${index}`] = "Item must be an object";
+      return;
+    }
+
+    const { text, voice } = item as Record<string, unknown>;
+    const result = validateTTSRequest({
+      ...settings,
+      text,
+      ...(voice !== undefined && { voice }),
+    });
+
+    if (result.fieldErrors) {
+      Object.entries(result.fieldErrors).forEach(([field, message]) => {
+        fieldErrors[`items.${index}.${field}`] = message;
+      });
+    } else {
+      requests.push(result.value);
+    }
+  });
+
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+
+  return { value: requests };
+};
+
+export interface DialogueRequest extends DialogueScript {
+  // Shared settings; `text` holds the whole script for length checks
+  request: TTSRequest;
+  stems: boolean;
+}
+
+/**
+ * Checks a dialogue body: `turns` of `{ speaker, text }`, a `speakers` map
+ * from speaker to voice, `gapMs` between turns and whether to return
+ * per-speaker `stems`. Other fields are shared settings.
+ */
+export const validateDialogueRequest = (
+  body: unknown
+): ValidationResult<DialogueRequest> => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { fieldErrors: { body: "Request body must be a JSON object" } };
+  }
+
+  const {
+    turns,
+    speakers,
+    gapMs = DEFAULT_TURN_GAP_MS,
+    stems = false,
+    ...settings
+  } = body as Record<string, unknown>;
+  const fieldErrors: FieldErrors = {};
+
+  if (!Array.isArray(turns) || turns.length === 0) {
+    return { fieldErrors: { turns: "Turns must be a non-empty array" } };
+  }
+  if (turns.length > TTS_CONFIG.MAX_DIALOGUE_TURNS) {
+    return {
+      fieldErrors: {
+        turns: `A script can have at most ${TTS_CONFIG.MAX_DIALOGUE_TURNS} turns`,
+      },
+    };
+  }
+  if (!speakers || typeof speakers !== "object" || Array.isArray(speakers)) {
+    return { fieldErrors: { speakers: "Speakers must map names to voices" } };
+  }
+
+  const voices = speakers as Record<string, unknown>;
+  turns.forEach((turn, index) => {
+    const { speaker, text } = (turn || {}) as Record<string, unknown>;
+    if (typeof speaker !== "string" || !speaker.trim()) {
+      fieldErrors[`turns.${index}.speaker`] = "Speaker cannot be empty";
+    } else if (typeof voices[speaker] !== "string") {
+      fieldErrors[`turns.${index}.speaker`] = `No voice chosen for ${speaker}`;
+    }
+    if (typeof text !== "string" || !text.trim()) {
+      fieldErrors[`turns.${index}.text`] = "Text cannot be empty";
+    }
+  });
+
+  if (
+    typeof gapMs !== "number" ||
+    !Number.isFinite(gapMs) ||
+    gapMs < 0 ||
+    gapMs > MAX_PAUSE_MS
+  ) {
+    fieldErrors.gapMs = `Gap must be between 0 and ${MAX_PAUSE_MS}ms`;
+  }
+  if (typeof stems !== "boolean") {
+    fieldErrors.stems = "stems must be a boolean";
+  }
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+
+  const dialogueTurns = (turns as { speaker: string; text: string }[]).map(
+    ({ speaker, text }) => ({ speaker, text })
+  );
+  const result = validateTTSRequest({
+    ...settings,
+    text: formatDialogueScript(dialogueTurns),
+    markup: false,
+  });
+  if (result.fieldErrors) return { fieldErrors: result.fieldErrors };
+
+  return {
+    value: {
+      request: result.value,
+      turns: dialogueTurns,
+      speakers: speakers as Record<string, string>,
+      gapMs: gapMs as number,
+      stems: stems as boolean,
+    },
+  };
+};
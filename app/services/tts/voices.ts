@@ -0,0 +1,55 @@
+import { TTSProviderInfo } from "./types";
+
+const baseLanguage = (code: string) => code.toLowerCase().split("-")[0];
+
+/**
+ * A voice fits a language when it lists the exact code or the same base
+ * language (e.g. "en-us" and "en-uk"). Voices without a language list are
+ * treated as multilingual.
+ */
+export const voiceSupportsLanguage = (
+  provider: Pick<TTSProviderInfo, "voiceLanguages">,
+  voice: string,
+  language: string
+): boolean => {
+  const languages = provider.voiceLanguages?.[voice];
+  if (!languages || languages.length === 0) return true;
+
+  return languages.some(
+    (code) =>
+      code.toLowerCase() === language.toLowerCase() ||
+      baseLanguage(code) === baseLanguage(language)
+  );
+};
+
+/**
+ * Voices of `provider` suitable for `language`. Falls back to the full list
+ * so the picker is never empty.
+ */
+export const getVoicesForLanguage = (
+  provider: Pick<TTSProviderInfo, "voices" | "voiceLanguages">,
+  language: string
+): Record<string, string> => {
+  const voices = Object.fromEntries(
+    Object.entries(provider.voices).filter(([voice]) =>
+      voiceSupportsLanguage(provider, voice, language)
+    )
+  );
+
+  return Object.keys(voices).length > 0 ? voices : provider.voices;
+};
+
+/**
+ * Picks the voice to use: the requested one when it fits the language,
+ * otherwise the provider default, otherwise the first suitable voice.
+ */
+export const resolveVoice = (
+  provider: Pick<TTSProviderInfo, "voices" | "voiceLanguages" | "defaultVoice">,
+  voice: string | undefined,
+  language: string
+): string => {
+  const voices = getVoicesForLanguage(provider, language);
+  if (voice && voice in voices) return voice;
+  if (provider.defaultVoice in voices) return provider.defaultVoice;
+  return Object.keys(voices)[0];
+};